@@ -1,10 +1,42 @@
 import * as THREE from 'three';
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
 import { World } from './World';
-import { InputManager } from './InputManager';
+import { Simulation, TICK_SECONDS } from './sim/Simulation';
+import { InputAction, InputEvent, InputManager } from './InputManager';
 import { NetworkManager } from './NetworkManager';
+import { SPAWN_RADIUS } from './net/protocol';
+import type { ServerMessage } from './net/protocol';
+import type { Player } from './sim/Player';
+import { NO_OWNER } from './sim/Player';
+import { addBots, Bot, BotDifficulty, restoreBots } from './sim/Bots';
+import { createSave, parseSave } from './sim/SaveGame';
+import { DEFAULT_WORLD_SETTINGS, describeWorld, sameWorldSettings, WorldSettings } from './sim/WorldSettings';
+import { MISSILES } from './sim/Missiles';
+import { BIOMES } from './sim/Biomes';
+import type { BuildingType } from './sim/Buildings';
+import type { DiplomacyAction } from './sim/Diplomacy';
+import { clampAttackRatio } from './sim/Population';
+import { ATTACK_RATIO_STEP, DEFAULT_ATTACK_RATIO } from './sim/Balance';
+import { DEFAULT_MATCH_SETTINGS, MatchSettings, teamOf } from './sim/Match';
 import { useUIStore } from '../uiStore';
 
+/** Radians per second the view turns under the rotate keys, at the default zoom. */
+const KEY_ROTATE_SPEED = 1.2;
+/** Camera height above the globe at which rotation runs at full speed. */
+const FULL_SPEED_HEIGHT = 200;
+/** Seconds a fly-to takes for a half turn around the globe; short hops are quicker. */
+const FLIGHT_SECONDS = 1.2;
+
+interface CameraFlight {
+    /** Unit directions from the globe's center */
+    from: THREE.Vector3;
+    to: THREE.Vector3;
+    fromDistance: number;
+    toDistance: number;
+    duration: number;
+    elapsed: number;
+}
+
 export class Game {
     container: HTMLElement;
     width: number;
@@ -16,10 +48,29 @@ export class Game {
     inputManager: InputManager;
     networkManager: NetworkManager;
     world: World | null = null;
+    simulation: Simulation | null = null;
+    clock: THREE.Clock = new THREE.Clock();
+    tickAccumulator: number = 0;
+    isMultiplayer: boolean = false;
+    localPlayerId: number | null = null;
+    bots: Bot[] = [];
+    private lastPublishedTick: number = -1;
+    /** Troop focus the local nation had in the sim when last published */
+    private publishedFocus: number | null = null;
+    /** Settings of the globe that is loaded or last attempted */
+    worldSettings: WorldSettings = DEFAULT_WORLD_SETTINGS;
+    /** The globe being built, if any; resolves to whether it succeeded */
+    private worldLoad: Promise<boolean> | null = null;
+    /** Server messages held back while the globe is rebuilt for the server's map */
+    private heldMessages: ServerMessage[] | null = null;
+    /** Hexes pinned in the inspector by a click or a dragged box */
+    selectedHexes: number[] = [];
+    /** Share of troops sent by each attack or expansion order */
+    attackRatio: number = DEFAULT_ATTACK_RATIO;
+    /** Building placed by the next click on our land, chosen by hotkey */
+    buildMode: BuildingType | null = null;
+    private cameraFlight: CameraFlight | null = null;
     isRunning: boolean;
-    money: number = 250000;
-    troops: number = 500;
-    troopTimer: number = 0;
     gameActive: boolean = false;
     stars: THREE.Points | null = null;
 
@@ -56,9 +107,12 @@ export class Game {
         this.controls.maxDistance = 800;
         this.controls.autoRotate = true; // Spin while in menu
         this.controls.autoRotateSpeed = 2.0;
+        // Grabbing the globe takes over from a fly-to in progress
+        this.controls.addEventListener('start', () => { this.cameraFlight = null; });
 
         // Subsystems
-        this.inputManager = new InputManager(this.renderer.domElement, this.camera, this.scene);
+        this.inputManager = new InputManager(this.renderer.domElement, this.camera);
+        this.inputManager.cameraControls = this.controls;
         this.networkManager = new NetworkManager();
 
         // Starfield (Hidden by default)
@@ -67,17 +121,296 @@ export class Game {
         this.isRunning = false;
         
         window.addEventListener('resize', () => this.onWindowResize(), false);
-        this.inputManager.domElement.addEventListener('click', () => this.onMouseClick());
+        this.inputManager.subscribe(event => this.onInput(event));
         
         // Subscribe to theme changes
         useUIStore.subscribe((state: any) => this.updateTheme(state.theme));
+        useUIStore.getState().setAttackRatio(this.attackRatio);
 
         this.start();
     }
 
-    async initWorld() {
-        this.world = new World(this.scene);
-        await this.world.init();
+    /**
+     * Builds the globe, publishing progress to the UI store while it loads.
+     * Resolves to false, with an error in the store, if generation failed.
+     */
+    initWorld(settings: WorldSettings = DEFAULT_WORLD_SETTINGS): Promise<boolean> {
+        this.worldSettings = settings;
+        const load = this.loadWorld(settings).finally(() => {
+            if (this.worldLoad === load) this.worldLoad = null;
+        });
+        this.worldLoad = load;
+        return load;
+    }
+
+    private async loadWorld(settings: WorldSettings): Promise<boolean> {
+        const store = useUIStore.getState();
+        store.setWorldError(null);
+        const world = new World(this.scene, settings);
+        const ok = await world.init((stage, progress) => store.setWorldLoading({ stage, progress }));
+        store.setWorldLoading(null);
+        if (!ok) {
+            store.setWorldError(`Could not generate the world (${describeWorld(settings)}).`);
+            return false;
+        }
+        this.world = world;
+        this.inputManager.setPicker({ hexAt: point => world.hexAtPoint(point), centers: world.centers, radius: world.globeRadius + 1 });
+        this.newSimulation(DEFAULT_MATCH_SETTINGS);
+        store.setWorldInfo(describeWorld(settings));
+        return true;
+    }
+
+    /** Resolves once any globe being built is done, to whether one is loaded. */
+    async worldReady(): Promise<boolean> {
+        while (this.worldLoad) await this.worldLoad;
+        return !!this.world;
+    }
+
+    /** Tries the last world again after a failed load. */
+    retryWorld(): Promise<boolean> {
+        return this.setWorldSettings(this.worldSettings);
+    }
+
+    /** Rebuilds the globe for different generation settings. A no-op if they already match. */
+    async setWorldSettings(settings: WorldSettings): Promise<boolean> {
+        // Loop, since another caller may start a load while we wait
+        while (this.worldLoad) await this.worldLoad;
+        if (this.world && sameWorldSettings(this.world.settings, settings)) {
+            useUIStore.getState().setWorldInfo(describeWorld(settings));
+            return true;
+        }
+        this.world?.destroy();
+        this.world = null;
+        this.simulation = null;
+        this.inputManager.setPicker(null);
+        this.selectHexes([]);
+        return this.initWorld(settings);
+    }
+
+    get localPlayer(): Player | undefined {
+        if (this.localPlayerId === null) return undefined;
+        return this.simulation?.getPlayer(this.localPlayerId);
+    }
+
+    /** Puts an empty offline match on the loaded globe, played by `match`. */
+    private newSimulation(match: MatchSettings) {
+        const world = this.world;
+        if (!world || !world.data) return;
+        this.simulation = new Simulation(world.data, { seed: Date.now() >>> 0, match });
+        world.bind(this.simulation);
+    }
+
+    /** Starts an offline match by `match`'s rules with the local nation and any AI opponents. */
+    startSingleplayer(playerName: string, botCount: number = 0, botDifficulty: BotDifficulty = 'medium', match: MatchSettings = DEFAULT_MATCH_SETTINGS) {
+        this.newSimulation(match);
+        if (!this.simulation) return;
+        this.localPlayerId = this.simulation.addPlayer(playerName).id;
+        this.bots = addBots(this.simulation, botCount, botDifficulty);
+    }
+
+    /** Serializes the running singleplayer match, or returns null if there is nothing to save. */
+    saveMatch(): string | null {
+        if (this.isMultiplayer || !this.simulation || this.localPlayerId === null) return null;
+        const save = createSave(this.simulation.getSaveState(), this.world!.settings, this.simulation.hexCount, this.localPlayerId, this.bots.map(b => b.toSave()));
+        return JSON.stringify(save);
+    }
+
+    /** Offers the current match as a downloadable save file. */
+    downloadSave() {
+        const json = this.saveMatch();
+        if (!json) return;
+        const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `sketchi-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    }
+
+    /**
+     * Replaces the current match with a saved one, regenerating its map if
+     * needed, and repaints the globe from it. Resolves to an error message if
+     * the save can't be used.
+     */
+    async loadMatch(text: string): Promise<string | null> {
+        const result = parseSave(text);
+        if (!result.ok) return result.error;
+
+        const { save } = result;
+        await this.setWorldSettings(save.world);
+        const world = this.world;
+        if (!world || !world.data) return 'The world failed to load.';
+        if (save.hexCount !== world.centers.length) {
+            return `The save is for a map with ${save.hexCount} hexes, but this map has ${world.centers.length}.`;
+        }
+        const sim = new Simulation(world.data, { seed: save.state.seed });
+        sim.loadSaveState(save.state);
+        this.bots = restoreBots(sim, save.bots);
+        this.simulation = sim;
+        this.localPlayerId = save.localPlayerId;
+        this.isMultiplayer = false;
+        this.tickAccumulator = 0;
+        this.lastPublishedTick = -1;
+        world.bind(sim);
+        return null;
+    }
+
+    /**
+     * Stops the current match, offline or online, and clears the globe for
+     * the menu: a fresh, empty simulation on the same map.
+     */
+    leaveMatch() {
+        if (this.isMultiplayer) this.networkManager.disconnect();
+        this.isMultiplayer = false;
+        this.heldMessages = null;
+        this.localPlayerId = null;
+        this.bots = [];
+        this.gameActive = false;
+        this.controls.autoRotate = true;
+        this.tickAccumulator = 0;
+        this.lastPublishedTick = -1;
+        this.publishedFocus = null;
+        this.setBuildMode(null);
+        this.selectHexes([]);
+        this.newSimulation(DEFAULT_MATCH_SETTINGS);
+        useUIStore.getState().resetMatch();
+    }
+
+    cancelExpansion(expansionId: number) {
+        if (this.localPlayerId === null) return;
+        this.world?.actions?.cancelExpansion(this.localPlayerId, expansionId);
+    }
+
+    diplomaticAction(targetId: number, action: DiplomacyAction) {
+        if (this.localPlayerId === null) return;
+        this.world?.actions?.diplomaticAction(this.localPlayerId, targetId, action);
+    }
+
+    /** Moves the local nation's balance between troop growth (1) and cash (0). */
+    setTroopFocus(focus: number) {
+        if (this.localPlayerId === null) return;
+        // Show the new value right away; a server echoes it back a tick later
+        useUIStore.getState().setTroopFocus(focus);
+        this.world?.actions?.setTroopFocus(this.localPlayerId, focus);
+    }
+
+    /** Joins a server lobby. The local Simulation becomes a replica fed by server ticks. */
+    startMultiplayer(serverUrl: string, playerName: string) {
+        this.isMultiplayer = true;
+        useUIStore.getState().setConnectionError(null);
+        this.networkManager.onStatusChange = (status) => useUIStore.getState().setConnectionStatus(status);
+        this.networkManager.onMessage = (msg) => this.onServerMessage(msg);
+        this.networkManager.connect(serverUrl, playerName);
+    }
+
+    onServerMessage(msg: ServerMessage) {
+        if (this.heldMessages) {
+            this.heldMessages.push(msg);
+            return;
+        }
+        const world = this.world;
+        if (!world || !world.data) return;
+
+        switch (msg.type) {
+            case 'welcome': {
+                if (!sameWorldSettings(world.settings, msg.world)) {
+                    // Rebuild the server's map, then replay everything that arrived meanwhile
+                    this.heldMessages = [];
+                    this.setWorldSettings(msg.world).then(() => {
+                        const held = this.heldMessages ?? [];
+                        this.heldMessages = null;
+                        this.onServerMessage(msg);
+                        held.forEach(m => this.onServerMessage(m));
+                    });
+                    return;
+                }
+                if (msg.hexCount !== world.centers.length) {
+                    console.error(`Server map has ${msg.hexCount} hexes, local map has ${world.centers.length}`);
+                    this.networkManager.disconnect();
+                    return;
+                }
+                const replica = new Simulation(world.data, { seed: msg.seed });
+                replica.loadSnapshot(msg.snapshot);
+                this.simulation = replica;
+                this.localPlayerId = msg.playerId;
+                world.bind(replica, this.networkManager);
+                useUIStore.getState().setPlayers(msg.players);
+
+                const me = msg.players.find(p => p.id === msg.playerId);
+                if (me && !this.localPlayer?.capitalPlaced) this.flyToHex(me.spawnHex);
+                break;
+            }
+            case 'lobby': {
+                const before = this.assignedSpawn();
+                useUIStore.getState().setPlayers(msg.players);
+                // The server deals a new spawn if ours was settled before we founded there
+                const spawn = this.assignedSpawn();
+                if (spawn !== before && spawn !== -1 && !this.localPlayer?.capitalPlaced) this.flyToHex(spawn);
+                break;
+            }
+            case 'error':
+                if (msg.fatal) useUIStore.getState().setConnectionError(msg.message);
+                break;
+            case 'tick': {
+                const sim = this.simulation;
+                if (!sim) return;
+                msg.events.forEach(e => sim.applyEvent(e));
+                sim.tick = msg.tick;
+                sim.applyStats(msg.stats);
+                break;
+            }
+        }
+    }
+
+    /** Swings the camera over a hex along the sphere, optionally ending at another distance. */
+    flyToHex(hexIndex: number, distance?: number) {
+        const center = this.world?.centers[hexIndex];
+        if (!center) return;
+        const from = this.camera.position.clone().normalize();
+        const to = center.clone().normalize();
+        const angle = from.angleTo(to);
+        this.cameraFlight = {
+            from,
+            to,
+            fromDistance: this.camera.position.length(),
+            toDistance: distance ?? this.camera.position.length(),
+            duration: FLIGHT_SECONDS * Math.max(0.3, angle / Math.PI),
+            elapsed: 0,
+        };
+    }
+
+    private updateCameraFlight(delta: number) {
+        const flight = this.cameraFlight;
+        if (!flight) return;
+        flight.elapsed += delta;
+        const t = Math.min(1, flight.elapsed / flight.duration);
+        const eased = t * t * (3 - 2 * t);
+        const turn = new THREE.Quaternion().setFromUnitVectors(flight.from, flight.to);
+        const direction = flight.from.clone().applyQuaternion(new THREE.Quaternion().slerp(turn, eased));
+        this.camera.position.copy(direction.multiplyScalar(flight.fromDistance + (flight.toDistance - flight.fromDistance) * eased));
+        this.camera.lookAt(0, 0, 0);
+        if (t >= 1) this.cameraFlight = null;
+    }
+
+    /** Turning slows as the camera nears the ground, so close-up views stay controllable. */
+    private get zoomFactor(): number {
+        const radius = this.world?.globeRadius ?? 0;
+        return Math.max(0.05, Math.min(1.5, (this.camera.position.length() - radius) / FULL_SPEED_HEIGHT));
+    }
+
+    /** Turns the view while the rotate keys are held. */
+    private updateKeyRotation(delta: number) {
+        const input = this.inputManager;
+        const horizontal = Number(input.isActionHeld('rotateRight')) - Number(input.isActionHeld('rotateLeft'));
+        const vertical = Number(input.isActionHeld('rotateUp')) - Number(input.isActionHeld('rotateDown'));
+        if (!horizontal && !vertical) return;
+        this.cameraFlight = null;
+        const step = KEY_ROTATE_SPEED * this.zoomFactor * delta;
+        const spherical = new THREE.Spherical().setFromVector3(this.camera.position);
+        spherical.theta += horizontal * step;
+        spherical.phi = Math.max(0.05, Math.min(Math.PI - 0.05, spherical.phi - vertical * step));
+        this.camera.position.setFromSpherical(spherical);
+        this.camera.lookAt(0, 0, 0);
     }
 
     createStars() {
@@ -104,63 +437,281 @@ export class Game {
 
     start() {
         this.isRunning = true;
+        this.clock.start();
         this.renderer.setAnimationLoop(() => this.loop());
     }
 
     activateGame() {
         this.gameActive = true;
         this.controls.autoRotate = false; // Stop spinning if auto-rotate was on
+        this.simulation?.activate();
     }
 
     loop() {
-        const delta = 0.016; // Fixed step for now, can use clock later
+        const delta = Math.min(this.clock.getDelta(), 0.25); // Clamp so a background tab doesn't fast-forward the match
+        this.controls.rotateSpeed = this.zoomFactor;
+        this.updateCameraFlight(delta);
+        this.updateKeyRotation(delta);
         this.controls.update();
-        this.world!.update(delta, this.gameActive);
-        
-        // Troop generation: +1 every 0.1s
-        if (this.gameActive) {
-            this.troopTimer += delta;
-            if (this.troopTimer >= 1.0) { // CHANGE THIS VALUE to slow down/speed up troops (1.0 = 1 second)
-                // Troops increase based on cities and territory size
-                const growth = this.world!.cities.length + Math.floor(this.world!.territorySize * 0.01);
-                this.troops += Math.max(1, growth);
-                this.troopTimer = 0;
+        this.inputManager.update();
+        this.world?.update(delta);
+
+        // Advance the simulation in fixed ticks, independent of frame rate.
+        // In multiplayer the server ticks and we only mirror its state.
+        // Only an offline match can pause; the server keeps ticking online.
+        if (this.simulation && !this.isMultiplayer && !useUIStore.getState().isGamePaused) {
+            this.tickAccumulator += delta;
+            while (this.tickAccumulator >= TICK_SECONDS) {
+                this.simulation.step();
+                this.tickAccumulator -= TICK_SECONDS;
             }
         }
-
-        useUIStore.getState().updateStats({ troops: this.troops, cash: this.money });
+        const me = this.localPlayer;
+        if (me) {
+            useUIStore.getState().updateStats({ troops: me.troops, maxTroops: this.simulation?.maxTroops(me.id), cash: me.cash });
+        }
+        if (this.simulation && this.simulation.tick !== this.lastPublishedTick) {
+            this.lastPublishedTick = this.simulation.tick;
+            const sim = this.simulation;
+            const teams = sim.matchSettings.teams > 1;
+            useUIStore.getState().setNations(sim.players.map(p => ({
+                id: p.id, name: p.name, color: p.color, territorySize: p.territorySize,
+                team: teams ? teamOf(sim.matchSettings, p.id) : null,
+            })));
+            useUIStore.getState().setExpansions(sim.expansions
+                .filter(e => e.playerId === this.localPlayerId)
+                .map(e => ({ id: e.id, troops: Math.floor(e.troops) })));
+            useUIStore.getState().setIncomingMissiles(sim.missiles
+                .filter(m => m.targetOwnerId === this.localPlayerId && m.ownerId !== this.localPlayerId)
+                .map(m => ({
+                    id: m.id,
+                    name: MISSILES[m.type].name,
+                    icon: MISSILES[m.type].icon,
+                    from: sim.getPlayer(m.ownerId)?.name ?? 'Unknown',
+                    eta: Math.max(0, Math.ceil(m.flightTime - (sim.tick - m.launchTick) * TICK_SECONDS)),
+                })));
+            if (me) {
+                useUIStore.getState().setIncome(sim.incomeBreakdown(me.id));
+                if (me.troopFocus !== this.publishedFocus) {
+                    this.publishedFocus = me.troopFocus;
+                    useUIStore.getState().setTroopFocus(me.troopFocus);
+                }
+            }
+            const store = useUIStore.getState();
+            store.setTimeLeft(sim.timeLeft());
+            if (sim.outcome && store.matchOutcome !== sim.outcome) store.setMatchOutcome(sim.outcome);
+            this.publishDiplomacy(sim);
+            this.publishInspector();
+        }
 
         this.renderer.render(this.scene, this.camera);
     }
 
-    onMouseClick() {
-        const intersection = this.inputManager.getIntersection();
-        if (intersection && intersection.point) {
-            if (!this.gameActive) {
-                // Try to place capital first
-                if (!this.world!.capitalPlaced) {
-                    const capitalPlaced = this.world!.placeCapital(intersection);
-                    if (capitalPlaced) {
-                        this.activateGame();
-                        return;
-                    }
-                }
-                
-                // Otherwise try to expand - use all available troops
-                const troopsToSend = Math.floor(this.troops * 0.5); // Send 50% of troops
-                if (troopsToSend > 0) {
-                    const started = this.world!.startExpansion(intersection, troopsToSend);
-                    if (started) {
-                        this.troops -= troopsToSend;
-                        console.log(`Sent ${troopsToSend} troops to conquer. Remaining: ${this.troops}`);
-                    }
-                }
+    /** Relations between the local nation and every other nation on the map. */
+    private publishDiplomacy(sim: Simulation) {
+        const me = this.localPlayerId;
+        if (me === null) return;
+        const d = sim.diplomacy;
+        useUIStore.getState().setDiplomacy(sim.players
+            .filter(p => p.id !== me && p.capitalPlaced)
+            .map(p => ({
+                id: p.id,
+                name: p.name,
+                color: p.color,
+                allied: d.isAllied(me, p.id),
+                outgoingRequest: !!d.findRequest(me, p.id),
+                incomingRequest: !!d.findRequest(p.id, me),
+                embargoed: d.hasEmbargo(me, p.id),
+                embargoedBy: d.hasEmbargo(p.id, me),
+                traitor: d.isTraitor(p.id, sim.tick),
+            })));
+    }
+
+    private onInput(event: InputEvent) {
+        switch (event.type) {
+            case 'hexHovered':
+                this.world?.highlightHexes(event.hexIndex, this.selectedHexes);
+                this.publishInspector();
+                break;
+            case 'hexClicked': {
+                // Clicking the pinned hex again unpins it
+                const hexIndex = event.hexIndex;
+                const repeat = hexIndex !== null && this.selectedHexes.length === 1 && this.selectedHexes[0] === hexIndex;
+                this.selectHexes(hexIndex === null || repeat ? [] : [hexIndex]);
+                if (hexIndex !== null) this.onHexClicked(hexIndex);
+                break;
+            }
+            case 'dragSelect':
+                this.selectHexes(event.hexIndices);
+                break;
+            case 'action':
+                this.onAction(event.action);
+                break;
+        }
+    }
+
+    private onAction(action: InputAction) {
+        const store = useUIStore.getState();
+        if (action.startsWith('build:')) {
+            if (this.gameActive) this.setBuildMode(action.slice('build:'.length) as BuildingType);
+            return;
+        }
+        switch (action) {
+            case 'cancel':
+                // Leave build mode first, then drop the selection
+                if (this.buildMode) this.setBuildMode(null);
+                else this.selectHexes([]);
+                break;
+            case 'help':
+                store.toggleHelp();
+                break;
+            case 'diplomacy':
+                if (!this.gameActive) break;
+                if (store.diplomacyOpen) store.closeDiplomacy();
+                else store.openDiplomacy();
+                break;
+            case 'pause':
+                if (this.gameActive && !this.isMultiplayer) store.togglePause();
+                break;
+            case 'jumpToCapital': {
+                const me = this.localPlayerId;
+                const capital = this.simulation?.buildings.find(b => b.ownerId === me && b.isCapital);
+                if (capital) this.flyToHex(capital.hexIndex);
+                break;
+            }
+            case 'ratioDown':
+            case 'ratioUp':
+                this.setAttackRatio(this.attackRatio + (action === 'ratioUp' ? ATTACK_RATIO_STEP : -ATTACK_RATIO_STEP));
+                break;
+        }
+    }
+
+    setAttackRatio(ratio: number) {
+        this.attackRatio = clampAttackRatio(ratio);
+        useUIStore.getState().setAttackRatio(this.attackRatio);
+    }
+
+    /** Chooses the building the next click places, or leaves build mode with null. */
+    setBuildMode(type: BuildingType | null) {
+        this.buildMode = type;
+        useUIStore.getState().setBuildMode(type);
+    }
+
+    /** Pins hexes in the inspector, or unpins with an empty list. */
+    selectHexes(hexIndices: number[]) {
+        this.selectedHexes = hexIndices;
+        this.world?.highlightHexes(this.inputManager.hoveredHex, hexIndices);
+        this.publishInspector();
+    }
+
+    /**
+     * Details for the inspector panel: of the pinned hex, a summary of a
+     * pinned group, or the hovered hex.
+     */
+    private publishInspector() {
+        const store = useUIStore.getState();
+        if (this.selectedHexes.length > 1) {
+            store.setInspectedHex(this.describeGroup(this.selectedHexes));
+            return;
+        }
+        const hexIndex = this.selectedHexes[0] ?? this.inputManager.hoveredHex;
+        store.setInspectedHex(hexIndex === null ? null : this.describeHex(hexIndex));
+    }
+
+    /** Hex and land counts of a group, and how much of the land each nation owns. */
+    private describeGroup(hexIndices: number[]) {
+        const world = this.world;
+        if (!world) return null;
+        const owned = new Map<number, number>();
+        let land = 0;
+        for (const h of hexIndices) {
+            if (world.centerWater[h]) continue;
+            land++;
+            const ownerId = this.simulation?.centerOwner[h] ?? NO_OWNER;
+            if (ownerId !== NO_OWNER) owned.set(ownerId, (owned.get(ownerId) ?? 0) + 1);
+        }
+        return {
+            group: true,
+            pinned: true,
+            count: hexIndices.length,
+            land,
+            owners: [...owned].map(([id, count]) => {
+                const player = this.simulation?.getPlayer(id);
+                return { id, count, name: player?.name ?? 'Unknown', color: player?.color ?? 0x888888 };
+            }).sort((a, b) => b.count - a.count),
+        };
+    }
+
+    private describeHex(hexIndex: number) {
+        const world = this.world;
+        if (!world || !world.data) return null;
+        const sim = this.simulation;
+        const biome = BIOMES[world.biomes[hexIndex]];
+        const owner = sim?.ownerOf(hexIndex);
+        return {
+            hexIndex,
+            pinned: this.selectedHexes.includes(hexIndex),
+            biome: biome.name,
+            water: biome.water,
+            river: world.data.centerRiver[hexIndex],
+            elevation: world.elevations[hexIndex],
+            lat: world.centerLat[hexIndex],
+            lng: world.centerLng[hexIndex],
+            region: world.regionName(hexIndex),
+            owner: owner ? { id: owner.id, name: owner.name, color: owner.color } : null,
+            // Troops belong to a nation, not a hex: show its army spread over its land
+            troops: owner && owner.territorySize > 0 ? Math.floor(owner.troops / owner.territorySize) : null,
+            fallout: !!sim?.fallout.has(hexIndex),
+            buildings: (sim?.buildings ?? [])
+                .filter(b => b.hexIndex === hexIndex)
+                .map(b => ({ id: b.id, name: b.name, health: b.health, constructing: b.constructionLeft > 0 })),
+        };
+    }
+
+    /** The hex the server dealt us to found our capital near, or -1 offline. */
+    private assignedSpawn(): number {
+        if (!this.isMultiplayer) return -1;
+        const me = useUIStore.getState().players.find((p: any) => p.id === this.localPlayerId);
+        return me ? me.spawnHex : -1;
+    }
+
+    /**
+     * Founds the local nation on the hex. Online the server only accepts a
+     * capital near the spawn it dealt us, so a click elsewhere flies back there.
+     */
+    placeCapital(hexIndex: number): boolean {
+        const me = this.localPlayerId;
+        if (me === null || !this.world || !this.simulation) return false;
+        const spawn = this.assignedSpawn();
+        if (spawn !== -1 && this.simulation.hexDistance(spawn, hexIndex, SPAWN_RADIUS) === -1) {
+            this.flyToHex(spawn);
+            return false;
+        }
+        return this.world.placeCapital(me, hexIndex);
+    }
+
+    private onHexClicked(hexIndex: number) {
+        const me = this.localPlayer;
+        if (!me || !this.world) return;
+        if (this.buildMode) {
+            const reason = this.simulation?.canBuild(me.id, hexIndex, this.buildMode);
+            if (reason) useUIStore.getState().setBuildError(reason);
+            else if (this.world.build(me.id, hexIndex, this.buildMode)) this.setBuildMode(null);
+            return;
+        }
+        // The first click founds the nation
+        if (!me.capitalPlaced) {
+            this.placeCapital(hexIndex);
+            return;
+        }
+        const troopsToSend = Math.floor(me.troops * this.attackRatio);
+        if (troopsToSend > 0) {
+            // Shores across the water are reached by boat
+            const sim = this.simulation;
+            if (sim && !sim.isAdjacentTo(me.id, hexIndex) && sim.canLaunchBoat(me.id, hexIndex, troopsToSend) === null) {
+                this.world.launchBoat(me.id, hexIndex, troopsToSend);
             } else {
-                const cost = Math.floor(this.troops * 0.2);
-                if (cost > 0) {
-                    this.troops -= cost;
-                    this.world!.attack(intersection);
-                }
+                this.world.attack(me.id, hexIndex, troopsToSend);
             }
         }
     }
@@ -1,36 +1,430 @@
 import * as THREE from 'three';
+import { BUILDINGS, BUILDING_TYPES, BuildingType } from './sim/Buildings';
 
+/** Commands that keys can be bound to. */
+export type InputAction =
+    | 'cancel' | 'help' | 'diplomacy' | 'pause' | 'jumpToCapital'
+    | 'ratioDown' | 'ratioUp'
+    | 'rotateUp' | 'rotateDown' | 'rotateLeft' | 'rotateRight'
+    | `build:${BuildingType}`;
+
+/** Every action, in the order the help overlay lists them. */
+export const INPUT_ACTIONS: InputAction[] = [
+    'cancel', 'help', 'diplomacy', 'pause', 'jumpToCapital',
+    'ratioDown', 'ratioUp',
+    'rotateUp', 'rotateDown', 'rotateLeft', 'rotateRight',
+    ...BUILDING_TYPES.map((type): InputAction => `build:${type}`),
+];
+
+export const INPUT_ACTION_LABELS: Record<InputAction, string> = {
+    cancel: 'Cancel / clear selection',
+    help: 'Show shortcuts',
+    diplomacy: 'Diplomacy',
+    pause: 'Pause',
+    jumpToCapital: 'Fly to capital',
+    ratioDown: 'Send fewer troops',
+    ratioUp: 'Send more troops',
+    rotateUp: 'Rotate globe up',
+    rotateDown: 'Rotate globe down',
+    rotateLeft: 'Rotate globe left',
+    rotateRight: 'Rotate globe right',
+    ...Object.fromEntries(BUILDING_TYPES.map(type => [`build:${type}`, `Build ${BUILDINGS[type].name}`])) as Record<`build:${BuildingType}`, string>,
+};
+
+/** Actions that work while their key is held down rather than once per press. */
+export const HELD_ACTIONS: InputAction[] = ['rotateUp', 'rotateDown', 'rotateLeft', 'rotateRight'];
+
+/** Default keys per action, as KeyboardEvent.code values. */
+export const DEFAULT_KEY_BINDINGS: Record<InputAction, string[]> = {
+    cancel: ['Escape'],
+    help: ['KeyH', 'Slash'],
+    diplomacy: ['KeyT'],
+    pause: ['KeyP'],
+    jumpToCapital: ['KeyC', 'Home'],
+    ratioDown: ['KeyQ'],
+    ratioUp: ['KeyE'],
+    rotateUp: ['KeyW', 'ArrowUp'],
+    rotateDown: ['KeyS', 'ArrowDown'],
+    rotateLeft: ['KeyA', 'ArrowLeft'],
+    rotateRight: ['KeyD', 'ArrowRight'],
+    ...Object.fromEntries(BUILDING_TYPES.map((type, i) => [`build:${type}`, [`Digit${i + 1}`]])) as Record<`build:${BuildingType}`, string[]>,
+};
+
+/** localStorage key for the player's rebound keys. */
+const KEY_BINDINGS_STORAGE = 'sketchi-key-bindings';
+
+/** Saved bindings over the defaults; unknown actions and malformed entries are ignored. */
+function loadKeyBindings(): Record<InputAction, string[]> {
+    const bindings = { ...DEFAULT_KEY_BINDINGS };
+    try {
+        const saved = JSON.parse(localStorage.getItem(KEY_BINDINGS_STORAGE) ?? '{}');
+        for (const action of INPUT_ACTIONS) {
+            const codes = saved?.[action];
+            if (Array.isArray(codes) && codes.every(c => typeof c === 'string')) bindings[action] = codes;
+        }
+    } catch {
+        // Storage disabled or corrupt: the defaults stand
+    }
+    return bindings;
+}
+
+function saveKeyBindings(bindings: Record<InputAction, string[]>) {
+    try {
+        localStorage.setItem(KEY_BINDINGS_STORAGE, JSON.stringify(bindings));
+    } catch {
+        // Storage disabled: the bindings last for this session only
+    }
+}
+
+const KEY_NAMES: Record<string, string> = {
+    Escape: 'Esc', Slash: '/', Space: 'Space', Home: 'Home',
+    ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→',
+    Minus: '-', Equal: '=', Comma: ',', Period: '.',
+};
+
+/** Short readable name for a KeyboardEvent.code, e.g. 'KeyW' → 'W'. */
+export function keyLabel(code: string): string {
+    if (KEY_NAMES[code]) return KEY_NAMES[code];
+    const match = /^(?:Key|Digit|Numpad)(.+)$/.exec(code);
+    return match ? match[1] : code;
+}
+
+/** Screen-space rectangle in client pixels. */
+export interface ScreenBox {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+/**
+ * Input resolved to game terms. Hex indices are null off the globe; `x` and
+ * `y` are client pixels, for placing menus.
+ */
+export type InputEvent =
+    | { type: 'hexHovered'; hexIndex: number | null }
+    | { type: 'hexClicked'; hexIndex: number | null }
+    | { type: 'hexContextMenu'; hexIndex: number | null; x: number; y: number }
+    | { type: 'dragSelect'; hexIndices: number[]; box: ScreenBox }
+    | { type: 'action'; action: InputAction };
+
+/** Returns true to consume the event, so lower-priority listeners never see it. */
+export type InputListener = (event: InputEvent) => boolean | void;
+
+/** Listener priority for UI overlays, which see events before the game does. */
+export const OVERLAY_PRIORITY = 10;
+
+/** What InputManager needs to know about the globe to resolve hexes. */
+export interface HexPicker {
+    /** Hex under a point on the globe, or -1 */
+    hexAt(point: THREE.Vector3): number;
+    /** Hex centers, for finding every hex inside a dragged box */
+    centers: THREE.Vector3[];
+    /** Sphere the pointer ray is tested against */
+    radius: number;
+}
+
+/** Pointer travel, in pixels, past which a press is a drag rather than a click. */
+const DRAG_TOLERANCE = 5;
+/** Seconds a touch must be held to open the context menu. */
+const LONG_PRESS_SECONDS = 0.5;
+
+const isTextInput = (target: EventTarget | null) =>
+    target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// The one place raw DOM input is read. Pointer (mouse and touch) and key
+// events become typed InputEvents: the hex under the pointer is found once
+// per frame with a ray/sphere test, a click or tap selects, a right click or
+// long press opens the context menu, shift-drag box-selects, and bound keys
+// fire actions. Listeners run from the highest priority down, and any of
+// them can consume an event, so an open overlay keeps it off the globe.
 export class InputManager {
     domElement: HTMLElement;
     camera: THREE.Camera;
-    scene: THREE.Scene;
     raycaster: THREE.Raycaster;
     mouse: THREE.Vector2;
+    /** Camera controls to pause while a box is dragged out */
+    cameraControls: { enabled: boolean } | null = null;
+    /** Hex under the pointer as of the last update() */
+    hoveredHex: number | null = null;
+    private listeners: { listener: InputListener; priority: number }[] = [];
+    private picker: HexPicker | null = null;
+    private bindings: Record<InputAction, string[]> = loadKeyBindings();
+    /** Keys currently down, by KeyboardEvent.code */
+    private heldKeys = new Set<string>();
+    /** Set while the help overlay waits for a key to rebind */
+    private keyCapture: ((code: string | null) => void) | null = null;
+    private pointerInside = false;
+    /** Pointers currently down, by pointer id */
+    private pressed = new Map<number, { x: number; y: number }>();
+    private dragged = false;
+    private longPress: ReturnType<typeof setTimeout> | null = null;
+    /** Set when a long press has already opened the menu, so the release isn't a tap */
+    private pressHandled = false;
+    private boxStart: { x: number; y: number } | null = null;
+    private boxElement: HTMLDivElement | null = null;
 
-    constructor(domElement: HTMLElement, camera: THREE.Camera, scene: THREE.Scene) {
+    constructor(domElement: HTMLElement, camera: THREE.Camera) {
         this.domElement = domElement;
         this.camera = camera;
-        this.scene = scene;
         this.raycaster = new THREE.Raycaster();
         this.mouse = new THREE.Vector2();
 
-        this.domElement.addEventListener('mousemove', (e) => this.onMouseMove(e));
-        this.domElement.addEventListener('click', () => this.onClick());
+        // Pointer events cover mouse, pen and touch alike; the page mustn't scroll or zoom under touch
+        this.domElement.style.touchAction = 'none';
+        this.domElement.addEventListener('pointermove', (e) => this.onPointerMove(e));
+        this.domElement.addEventListener('pointerdown', (e) => this.onPointerDown(e));
+        this.domElement.addEventListener('pointerup', (e) => this.onPointerUp(e));
+        this.domElement.addEventListener('pointercancel', (e) => this.onPointerCancel(e));
+        this.domElement.addEventListener('pointerleave', (e) => { if (e.pointerType === 'mouse') this.pointerInside = false; });
+        this.domElement.addEventListener('contextmenu', (e) => this.onContextMenu(e));
+        window.addEventListener('keydown', (e) => this.onKeyDown(e));
+        window.addEventListener('keyup', (e) => this.heldKeys.delete(e.code));
+        window.addEventListener('blur', () => this.heldKeys.clear());
+    }
+
+    /**
+     * Listens for input events, highest priority first; returns an
+     * unsubscribe function. UI overlays use OVERLAY_PRIORITY.
+     */
+    subscribe(listener: InputListener, priority: number = 0): () => void {
+        const entry = { listener, priority };
+        this.listeners.push(entry);
+        this.listeners.sort((a, b) => b.priority - a.priority);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== entry);
+        };
+    }
+
+    private emit(event: InputEvent) {
+        for (const { listener } of [...this.listeners]) {
+            if (listener(event) === true) return;
+        }
+    }
+
+    /** Sets how pointer positions map to hexes, or clears it while no globe is loaded. */
+    setPicker(picker: HexPicker | null) {
+        this.picker = picker;
+    }
+
+    /** Keys bound to each action. */
+    get keyBindings(): Record<InputAction, string[]> {
+        return this.bindings;
+    }
+
+    /**
+     * Binds a key (a KeyboardEvent.code) to an action, taking it from any
+     * action that had it, and remembers the change across sessions.
+     */
+    bindKey(action: InputAction, code: string) {
+        const next = { ...this.bindings };
+        for (const other of INPUT_ACTIONS) next[other] = next[other].filter(c => c !== code);
+        next[action] = [code];
+        this.bindings = next;
+        saveKeyBindings(next);
+    }
+
+    resetKeyBindings() {
+        this.bindings = { ...DEFAULT_KEY_BINDINGS };
+        saveKeyBindings(this.bindings);
     }
 
-    onMouseMove(event: MouseEvent) {
+    /**
+     * Hands the next key press to `callback` instead of firing its action;
+     * Escape gives null. Returns a function that stops waiting.
+     */
+    captureKey(callback: (code: string | null) => void): () => void {
+        this.keyCapture = callback;
+        return () => {
+            if (this.keyCapture === callback) this.keyCapture = null;
+        };
+    }
+
+    /** Whether a key bound to the action is down, for actions that last while held. */
+    isActionHeld(action: InputAction): boolean {
+        return this.bindings[action].some(code => this.heldKeys.has(code));
+    }
+
+    /** Action a key is bound to, if any. */
+    actionForKey(code: string): InputAction | null {
+        return INPUT_ACTIONS.find(action => this.bindings[action].includes(code)) ?? null;
+    }
+
+    private setPointer(event: PointerEvent | MouseEvent) {
         this.mouse.x = (event.clientX / window.innerWidth) * 2 - 1;
         this.mouse.y = -(event.clientY / window.innerHeight) * 2 + 1;
     }
 
-    onClick() {
-        this.raycaster.setFromCamera(this.mouse, this.camera);
-        // TODO: Emit event for object selection
+    private onPointerMove(event: PointerEvent) {
+        // Touch has no hover; the pointer only counts while a finger is down
+        if (event.pointerType === 'mouse') this.pointerInside = true;
+        const start = this.pressed.get(event.pointerId);
+        if (start && this.pressed.size === 1) this.setPointer(event);
+        else if (!start && event.pointerType === 'mouse') this.setPointer(event);
+        if (start && Math.hypot(event.clientX - start.x, event.clientY - start.y) > DRAG_TOLERANCE) {
+            this.dragged = true;
+            this.cancelLongPress();
+        }
+        if (this.boxStart) this.drawBox(this.boxFrom(event));
+    }
+
+    private onPointerDown(event: PointerEvent) {
+        this.pressed.set(event.pointerId, { x: event.clientX, y: event.clientY });
+        if (this.pressed.size > 1) {
+            // A second finger makes it a pinch or rotate, never a tap
+            this.dragged = true;
+            this.cancelLongPress();
+            return;
+        }
+        this.setPointer(event);
+        this.dragged = false;
+        this.pressHandled = false;
+        if (event.pointerType === 'mouse' && event.button === 0 && event.shiftKey) {
+            this.boxStart = { x: event.clientX, y: event.clientY };
+            if (this.cameraControls) this.cameraControls.enabled = false;
+        }
+        if (event.pointerType === 'touch') {
+            this.longPress = setTimeout(() => {
+                this.longPress = null;
+                this.pressHandled = true;
+                this.emit({ type: 'hexContextMenu', hexIndex: this.pickHex(), x: event.clientX, y: event.clientY });
+            }, LONG_PRESS_SECONDS * 1000);
+        }
+    }
+
+    private onPointerUp(event: PointerEvent) {
+        if (!this.pressed.delete(event.pointerId)) return;
+        this.cancelLongPress();
+        if (this.boxStart) {
+            const box = this.boxFrom(event);
+            this.endBox();
+            if (this.dragged) {
+                this.emit({ type: 'dragSelect', hexIndices: this.hexesInBox(box), box });
+                return;
+            }
+        }
+        if (this.pressed.size > 0 || this.dragged || this.pressHandled) return;
+        // Only the primary button selects; a right click arrives as contextmenu
+        if (event.pointerType === 'mouse' && event.button !== 0) return;
+        this.setPointer(event);
+        this.emit({ type: 'hexClicked', hexIndex: this.pickHex() });
+    }
+
+    private onPointerCancel(event: PointerEvent) {
+        this.pressed.delete(event.pointerId);
+        this.cancelLongPress();
+        this.endBox();
+    }
+
+    private onContextMenu(event: MouseEvent) {
+        event.preventDefault();
+        // Touch browsers send their own long-press contextmenu; ours comes from the timer
+        if (this.pressHandled || this.pressed.size > 1) return;
+        this.setPointer(event);
+        this.emit({ type: 'hexContextMenu', hexIndex: this.pickHex(), x: event.clientX, y: event.clientY });
+    }
+
+    private onKeyDown(event: KeyboardEvent) {
+        // Leave typing in text fields and browser shortcuts alone
+        if (isTextInput(event.target) || event.ctrlKey || event.metaKey || event.altKey) return;
+        if (this.keyCapture) {
+            event.preventDefault();
+            const capture = this.keyCapture;
+            this.keyCapture = null;
+            capture(event.code === 'Escape' ? null : event.code);
+            return;
+        }
+        const action = this.actionForKey(event.code);
+        if (!action) return;
+        event.preventDefault();
+        this.heldKeys.add(event.code);
+        // Held actions are polled with isActionHeld; the rest fire once per press
+        if (event.repeat || HELD_ACTIONS.includes(action)) return;
+        this.emit({ type: 'action', action });
+    }
+
+    private cancelLongPress() {
+        if (this.longPress !== null) clearTimeout(this.longPress);
+        this.longPress = null;
+    }
+
+    private boxFrom(event: MouseEvent): ScreenBox {
+        const start = this.boxStart ?? { x: event.clientX, y: event.clientY };
+        return {
+            left: Math.min(start.x, event.clientX),
+            top: Math.min(start.y, event.clientY),
+            right: Math.max(start.x, event.clientX),
+            bottom: Math.max(start.y, event.clientY),
+        };
+    }
+
+    /** Outlines the box being dragged out. */
+    private drawBox(box: ScreenBox) {
+        if (!this.boxElement) {
+            this.boxElement = document.createElement('div');
+            Object.assign(this.boxElement.style, {
+                position: 'fixed',
+                border: '1px dashed white',
+                background: 'rgba(255, 255, 255, 0.1)',
+                pointerEvents: 'none',
+                zIndex: '500',
+            });
+            document.body.appendChild(this.boxElement);
+        }
+        Object.assign(this.boxElement.style, {
+            left: `${box.left}px`,
+            top: `${box.top}px`,
+            width: `${box.right - box.left}px`,
+            height: `${box.bottom - box.top}px`,
+        });
+    }
+
+    private endBox() {
+        this.boxStart = null;
+        this.boxElement?.remove();
+        this.boxElement = null;
+        if (this.cameraControls) this.cameraControls.enabled = true;
+    }
+
+    /** Hexes on the camera's side of the globe whose centers fall inside a screen box. */
+    private hexesInBox(box: ScreenBox): number[] {
+        if (!this.picker) return [];
+        const cameraPosition = this.camera.getWorldPosition(new THREE.Vector3());
+        const projected = new THREE.Vector3();
+        const hexes: number[] = [];
+        this.picker.centers.forEach((center, i) => {
+            // Facing the camera: the camera is above the hex's horizon
+            if (center.dot(cameraPosition) <= center.lengthSq()) return;
+            projected.copy(center).project(this.camera);
+            const x = (projected.x + 1) / 2 * window.innerWidth;
+            const y = (1 - projected.y) / 2 * window.innerHeight;
+            if (x >= box.left && x <= box.right && y >= box.top && y <= box.bottom) hexes.push(i);
+        });
+        return hexes;
+    }
+
+    private pickHex(): number | null {
+        if (!this.picker) return null;
+        const point = this.getSpherePoint(this.picker.radius);
+        if (!point) return null;
+        const hexIndex = this.picker.hexAt(point);
+        return hexIndex === -1 ? null : hexIndex;
+    }
+
+    /** Called every frame: the camera may move the globe under a still pointer. */
+    update() {
+        const hexIndex = this.pointerInside ? this.pickHex() : null;
+        if (hexIndex === this.hoveredHex) return;
+        this.hoveredHex = hexIndex;
+        this.emit({ type: 'hexHovered', hexIndex });
     }
 
-    getIntersection(): THREE.Intersection | null {
+    /**
+     * Where the pointer ray meets a sphere around the origin, or null if it
+     * misses. Much cheaper than raycasting the scene, for per-frame hover.
+     */
+    getSpherePoint(radius: number): THREE.Vector3 | null {
         this.raycaster.setFromCamera(this.mouse, this.camera);
-        const intersects = this.raycaster.intersectObjects(this.scene.children, true);
-        return intersects.length > 0 ? intersects[0] : null;
+        return this.raycaster.ray.intersectSphere(new THREE.Sphere(new THREE.Vector3(), radius), new THREE.Vector3());
     }
-}
\ No newline at end of file
+}
@@ -1,14 +1,189 @@
-export class NetworkManager {
+import type { SimActions } from './sim/Simulation';
+import type { BuildingType } from './sim/Buildings';
+import type { MissileType } from './sim/Missiles';
+import type { DiplomacyAction } from './sim/Diplomacy';
+import type { RoadType } from './sim/Infrastructure';
+import { ClientMessage, Intent, parseServerMessage, PROTOCOL_VERSION, ServerMessage } from './net/protocol';
+
+export type ConnectionStatus = 'offline' | 'connecting' | 'connected' | 'reconnecting';
+
+const MAX_RECONNECT_DELAY_MS = 10_000;
+const PING_INTERVAL_MS = 5_000;
+
+// Client side of multiplayer. Player actions are forwarded to the server as
+// intents (the server decides whether they succeed); server messages are
+// handed to `onMessage`, which Game uses to update the replica Simulation.
+export class NetworkManager implements SimActions {
     isConnected: boolean;
+    status: ConnectionStatus = 'offline';
+    playerId: number | null = null;
+    /** Last fatal server error, e.g. a full lobby; no reconnects follow it */
+    error: string | null = null;
+    latency: number = 0;
+    onMessage: ((msg: ServerMessage) => void) | null = null;
+    onStatusChange: ((status: ConnectionStatus) => void) | null = null;
+
+    private socket: WebSocket | null = null;
+    private serverUrl: string = '';
+    private lobbyId: string = 'default';
+    private playerName: string = 'Player';
+    /** Proves to the server that a reconnect is ours, handed out in `welcome` */
+    private reconnectToken: string | null = null;
+    private reconnectAttempts: number = 0;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private pingTimer: ReturnType<typeof setInterval> | null = null;
+    private closedByUser: boolean = false;
 
     constructor() {
         this.isConnected = false;
     }
 
-    connect(serverUrl: string) {
+    connect(serverUrl: string, playerName: string = 'Player', lobbyId: string = 'default') {
         console.log(`Connecting to ${serverUrl}...`);
-        // Placeholder for WebSocket connection
-        // this.socket = new WebSocket(serverUrl);
-        this.isConnected = true;
+        this.serverUrl = serverUrl;
+        this.playerName = playerName;
+        this.lobbyId = lobbyId;
+        this.closedByUser = false;
+        this.error = null;
+        this.playerId = null;
+        this.reconnectToken = null;
+        this.reconnectAttempts = 0;
+        this.open();
+    }
+
+    disconnect() {
+        this.closedByUser = true;
+        if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = null;
+        this.socket?.close();
+        this.socket = null;
+        this.playerId = null;
+        this.reconnectToken = null;
+        this.setStatus('offline');
+    }
+
+    private open() {
+        this.setStatus(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+        const socket = new WebSocket(this.serverUrl);
+        this.socket = socket;
+
+        socket.onopen = () => {
+            this.reconnectAttempts = 0;
+            // Sending our previous playerId and its token lets the server give us our slot back
+            this.send({
+                type: 'join',
+                version: PROTOCOL_VERSION,
+                lobbyId: this.lobbyId,
+                name: this.playerName,
+                playerId: this.playerId ?? undefined,
+                reconnectToken: this.reconnectToken ?? undefined,
+            });
+            this.pingTimer = setInterval(() => this.send({ type: 'ping', time: Date.now() }), PING_INTERVAL_MS);
+        };
+
+        socket.onmessage = (e) => {
+            const msg = parseServerMessage(String(e.data));
+            if (!msg) return;
+            if (msg.type === 'welcome') {
+                this.playerId = msg.playerId;
+                this.reconnectToken = msg.reconnectToken;
+                this.setStatus('connected');
+            } else if (msg.type === 'pong') {
+                this.latency = Date.now() - msg.time;
+                return;
+            } else if (msg.type === 'error') {
+                console.warn('Server error:', msg.message);
+                // The server is about to close on us and retrying won't help
+                if (msg.fatal) {
+                    this.error = msg.message;
+                    this.disconnect();
+                }
+            }
+            if (this.onMessage) this.onMessage(msg);
+        };
+
+        socket.onclose = () => {
+            if (this.pingTimer) clearInterval(this.pingTimer);
+            this.pingTimer = null;
+            if (this.socket !== socket) return;
+            this.socket = null;
+            if (this.closedByUser) return;
+            this.scheduleReconnect();
+        };
+    }
+
+    private scheduleReconnect() {
+        // Exponential backoff: 0.5s, 1s, 2s ... capped
+        const delay = Math.min(MAX_RECONNECT_DELAY_MS, 500 * Math.pow(2, this.reconnectAttempts));
+        this.reconnectAttempts++;
+        this.setStatus('reconnecting');
+        console.log(`Connection lost, reconnecting in ${delay}ms`);
+        this.reconnectTimer = setTimeout(() => this.open(), delay);
+    }
+
+    private setStatus(status: ConnectionStatus) {
+        this.status = status;
+        this.isConnected = status === 'connected';
+        if (this.onStatusChange) this.onStatusChange(status);
+    }
+
+    private send(msg: ClientMessage): boolean {
+        if (!this.socket || this.socket.readyState !== WebSocket.OPEN) return false;
+        this.socket.send(JSON.stringify(msg));
+        return true;
+    }
+
+    sendIntent(intent: Intent): boolean {
+        return this.isConnected && this.send({ type: 'intent', intent });
+    }
+
+    // The server knows which player a socket belongs to, so the id is not sent
+
+    placeCapital(_playerId: number, hexIndex: number): boolean {
+        return this.sendIntent({ kind: 'build', hexIndex, building: 'capital' });
+    }
+
+    build(_playerId: number, hexIndex: number, type: BuildingType): boolean {
+        return this.sendIntent({ kind: 'build', hexIndex, building: type });
+    }
+
+    startExpansion(_playerId: number, hexIndex: number, troopsToSend: number, speed?: number): boolean {
+        return this.sendIntent({ kind: 'expand', hexIndex, troops: troopsToSend, speed });
+    }
+
+    cancelExpansion(_playerId: number, expansionId: number): boolean {
+        return this.sendIntent({ kind: 'cancelExpansion', expansionId });
+    }
+
+    launchMissile(_playerId: number, hexIndex: number, type: MissileType): boolean {
+        return this.sendIntent({ kind: 'launch', hexIndex, missile: type });
+    }
+
+    diplomaticAction(_playerId: number, targetId: number, action: DiplomacyAction): boolean {
+        return this.sendIntent({ kind: 'diplomacy', targetId, action });
+    }
+
+    setTroopFocus(_playerId: number, focus: number): boolean {
+        return this.sendIntent({ kind: 'focus', focus });
+    }
+
+    launchBoat(_playerId: number, hexIndex: number, troopsToSend: number): boolean {
+        return this.sendIntent({ kind: 'boat', hexIndex, troops: troopsToSend });
+    }
+
+    buildWarship(_playerId: number, hexIndex: number): boolean {
+        return this.sendIntent({ kind: 'warship', hexIndex });
+    }
+
+    buildBridge(_playerId: number, hexIndex: number): boolean {
+        return this.sendIntent({ kind: 'bridge', hexIndex });
+    }
+
+    buildRoad(_playerId: number, hexIndex: number, type: RoadType): boolean {
+        return this.sendIntent({ kind: 'road', hexIndex, road: type });
+    }
+
+    attack(_playerId: number, hexIndex: number, troopsToSend: number): boolean {
+        return this.sendIntent({ kind: 'attack', hexIndex, troops: troopsToSend });
     }
-}
\ No newline at end of file
+}
@@ -1,254 +1,292 @@
 import * as THREE from 'three';
 import * as h3 from 'h3-js';
+import type { Biome, WorldData } from './sim/types';
+import { TICK_SECONDS } from './sim/Simulation';
+import type { Simulation, SimActions, SimEvent } from './sim/Simulation';
+import { generateWorldData, latLngToVector3, vector3ToLatLng, WORLD_GEN_STAGES } from './sim/generateWorldData';
+import type { WorldGenStage } from './sim/generateWorldData';
+import { DEFAULT_WORLD_SETTINGS, WorldSettings } from './sim/WorldSettings';
+import { EARTH_DATA_URL, EARTH_REGIONS_URL, EarthData, parseEarthData } from './sim/EarthData';
+import { decodeWorldData, worldCacheKey } from './sim/WorldFormat';
+import type { WorldWorkerMessage, WorldWorkerRequest } from './worldWorker';
+import { clearLegacyWorldCache, loadCachedWorld, loadPrebakedWorld, saveCachedWorld } from './WorldCache';
+import { NO_OWNER } from './sim/Player';
+import { BIOMES } from './sim/Biomes';
+import { Building, BuildingType, isOperational } from './sim/Buildings';
+import type { MissileInFlight, MissileType } from './sim/Missiles';
+import type { TradeShip } from './sim/Economy';
+import type { TransportBoat, Warship } from './sim/Naval';
+import { BOAT_SPEED, WARSHIP_SPEED } from './sim/Balance';
+import type { Bridge, Road, RoadType } from './sim/Infrastructure';
 
-export type Biome = 'ocean' | 'coast' | 'desert' | 'land' | 'mountain' | 'pole';
+export type { Biome, WorldData } from './sim/types';
 
-export interface City {
-    mesh: THREE.Mesh;
+export interface BuildingView {
+    id: number;
+    mesh: THREE.Object3D;
+    /** Owner-colored part of the model, recolored on capture */
+    accent: THREE.Mesh;
+    hexIndex: number;
+    ownerId: number;
     name: string;
-    health: number;
 }
 
-export interface WorldData {
-    centers: { x: number, y: number, z: number }[];
-    centerNeighbors: number[][];
-    centerWater: boolean[];
-    centerLat: number[];
-    centerLng: number[];
-    hexagons: string[];
-    biomes: Biome[];
-    elevations: number[];
+// Body color and size of each building model; the accent is always the owner's color
+const BUILDING_MODELS: Record<BuildingType, { color: number; size: [number, number, number] }> = {
+    city: { color: 0x888888, size: [6, 8, 6] },
+    port: { color: 0x8b5a2b, size: [7, 3, 4] },
+    factory: { color: 0x6b4f3a, size: [7, 5, 5] },
+    defensePost: { color: 0x556b2f, size: [4, 4, 4] },
+    missileSilo: { color: 0x444444, size: [3, 10, 3] },
+    sam: { color: 0x9ca3af, size: [4, 3, 4] },
+};
+
+/** A bridge or road on the globe, found again by its sim id. */
+interface InfrastructureView {
+    kind: 'bridge' | 'road';
+    id: number;
+    mesh: THREE.Object3D;
 }
 
+// Tube color and thickness of each road type
+const ROAD_MODELS: Record<RoadType, { color: number; radius: number }> = {
+    road: { color: 0x8b7355, radius: 0.3 },
+    railroad: { color: 0x333333, radius: 0.4 },
+};
+
+/** Opacity of a bridge or road while it's still under construction. */
+const CONSTRUCTION_OPACITY = 0.35;
+
+/** Scale of a building model while it's still under construction. */
+const CONSTRUCTION_SCALE = 0.4;
+/** Hex circumradius the building models were sized for; they shrink with smaller hexes. */
+const MODEL_HEX_SIZE = 6;
+
+/** What World.init() is doing: reading a stored world, generating one, or building the meshes. */
+export type WorldLoadStage = 'cache' | WorldGenStage | 'globe';
+/** Reports init() progress; `progress` covers the whole load, 0 to 1. */
+export type WorldLoadProgress = (stage: WorldLoadStage, progress: number) => void;
+/** Share of the progress bar taken by generation; building the meshes fills the rest. */
+const GENERATION_SHARE = 0.9;
+
+/** What the action wrappers accept as a target: a hex index, a raycast hit on the globe, or a point on it. */
+export type HexTarget = number | THREE.Intersection | THREE.Vector3;
+
 export interface Projectile {
-    mesh: THREE.Mesh;
+    mesh: THREE.Object3D;
     curve: any;
     progress: number;
     speed: number;
     onComplete?: () => void;
+    /** Sim missile this projectile shows, if any */
+    missileId?: number;
+    /** Sim trade ship this projectile shows, if any */
+    tradeShipId?: number;
+    /** Sim transport boat or warship this projectile shows, if any */
+    boatId?: number;
+    warshipId?: number;
+    /** Exhaust line drawn behind the projectile */
+    trail?: THREE.Line;
 }
 
-export interface ConquestInProgress {
-    hexIndex: number;
-    troopsAllocated: number;
-    timeElapsed: number;
-    totalTimeNeeded: number;
+export interface Explosion {
+    mesh: THREE.Mesh;
+    age: number;
+    duration: number;
+    maxScale: number;
 }
 
+/** How far the hovered and selected hexes are lightened toward white. */
+const HOVER_LIGHTEN = 0.3;
+const SELECT_LIGHTEN = 0.5;
+const WHITE = new THREE.Color(0xffffff);
+/** Color of an irradiated hex. */
+const FALLOUT_COLOR = 0x7a8b2c;
+const RIVER_COLOR = 0x38bdf8;
+/** Points along a missile's exhaust trail. */
+const TRAIL_POINTS = 24;
+/** Share of the flight path the exhaust trail covers. */
+const TRAIL_LENGTH = 0.2;
+const WARHEAD_COLORS: Record<MissileType, number> = {
+    missile: 0xdddddd,
+    atomBomb: 0xffd700,
+    hydrogenBomb: 0xff4500,
+};
+
+// Three.js view of the match. Game rules live in sim/Simulation; World builds
+// the globe meshes, turns raycast hits into hex indices and repaints whenever
+// the bound simulation reports a change.
 export class World {
     scene: THREE.Scene;
-    cities: City[];
+    buildings: BuildingView[];
+    infrastructure: InfrastructureView[] = [];
     units: any[];
     projectiles: Projectile[];
+    explosions: Explosion[] = [];
     globe: THREE.Mesh | null = null;
     globeRadius: number = 210;
-    territorySize: number = 0;
+    data: WorldData | null = null;
+    settings: WorldSettings;
+    simulation: Simulation | null = null;
+    actions: SimActions | null = null;
+    private unsubscribe: (() => void) | null = null;
 
     centers: THREE.Vector3[] = [];
     centerNeighbors: number[][] = [];
     centerWater: boolean[] = [];
-    centerOwned: boolean[] = [];
     centerLat: number[] = [];
     centerLng: number[] = [];
     hexagons: string[] = [];
+    /** Hex index of every H3 cell in the grid, for point lookups */
+    private hexToIndex = new Map<string, number>();
+    private resolution = 0;
     biomes: Biome[] = [];
     elevations: number[] = [];
     hexMeshes: THREE.Mesh[] = [];
-    expansions: { frontier: number[]; speed: number; timer: number }[] = [];
-    capitalPlaced: boolean = false;
-    conquestInProgress: ConquestInProgress | null = null;
     instancedHexMesh?: THREE.InstancedMesh | null = null;
+    hexTopRadius: number[] = [];
+    /** Average distance from a hex center to its corners, in scene units */
+    hexSize: number = MODEL_HEX_SIZE;
+    borderLines: THREE.LineSegments | null = null;
+    allianceLines: THREE.LineSegments | null = null;
+    riverLines: THREE.LineSegments | null = null;
+    bordersDirty: boolean = false;
+    /** Hexes drawn lightened for the pointer and the inspector; -1 for none */
+    private hoveredHex = -1;
+    private selectedHexes = new Set<number>();
+    private borderEdgeCache = new Map<string, number[]>();
 
-    constructor(scene: THREE.Scene) {
+    constructor(scene: THREE.Scene, settings: WorldSettings = DEFAULT_WORLD_SETTINGS) {
         this.scene = scene;
-        this.cities = [];
+        this.settings = settings;
+        this.buildings = [];
         this.units = [];
         this.projectiles = [];
     }
 
     private getBiomeColor(biome: Biome): number {
-        switch (biome) {
-            case 'ocean': return 0x1e40af;
-            case 'coast': return 0x60a5fa;
-            case 'desert': return 0xfbbf24;
-            case 'land': return 0x4ade80;
-            case 'mountain': return 0x6b7280;
-            case 'pole': return 0xe5e7eb;
-            default: return 0x4ade80;
-        }
-    }
-
-    private latLngToVector3(lat: number, lng: number, radius: number): THREE.Vector3 {
-        const phi = (90 - lat) * (Math.PI / 180);
-        const theta = lng * (Math.PI / 180);
-        const x = radius * Math.sin(phi) * Math.cos(theta);
-        const y = radius * Math.cos(phi);
-        const z = radius * Math.sin(phi) * Math.sin(theta);
-        return new THREE.Vector3(x, y, z);
+        return BIOMES[biome]?.color ?? BIOMES.grassland.color;
     }
 
-    async init() {
+    /**
+     * Builds the globe for `settings`: from the IndexedDB cache, else a world
+     * prebaked into public/worlds, else by generating it in a Web Worker (and
+     * caching that). Resolves to false if generation failed.
+     */
+    async init(onProgress: WorldLoadProgress = () => {}): Promise<boolean> {
         console.log('World.init() started');
-        let cachedDataLoaded = false;
-        
-        const cacheVersion = 'world-data-v7';
-        
-        // Try loading from localStorage first
-        try {
-            const cached = localStorage.getItem(cacheVersion);
-            if (cached) {
-                const data: WorldData = JSON.parse(cached);
-                console.log('Loading world data from localStorage cache (resolution 7)...');
-                this.buildWorldFromData(data);
-                cachedDataLoaded = true;
-            }
-        } catch (e) {
-            console.warn('Could not load world data from localStorage:', e);
+        const key = this.cacheKey;
+        clearLegacyWorldCache();
+
+        onProgress('cache', 0);
+        let worldData = await loadCachedWorld(key);
+        if (worldData) console.log(`Loaded world ${key} from the IndexedDB cache`);
+        if (!worldData) {
+            worldData = await loadPrebakedWorld(key);
+            if (worldData) console.log(`Loaded prebaked world ${key}`);
         }
-        
-        if (!cachedDataLoaded) {
-            console.log('Generating new world with H3 resolution 7...');
-            const worldData = this.generateWorldData();
-            this.buildWorldFromData(worldData);
-            this.saveWorldDataToFile(worldData);
+        const generated = !worldData;
+        if (!worldData) {
+            console.log(`Generating new world with H3 resolution ${this.settings.resolution}...`);
+            const earth = this.settings.preset === 'earth' ? await this.loadEarthData() : null;
+            worldData = await this.generateInWorker(earth, onProgress);
+            if (!worldData) return false;
         }
-        
+        // Give the page a frame to show the last stage; building the meshes blocks it
+        onProgress('globe', GENERATION_SHARE);
+        await new Promise(resolve => setTimeout(resolve));
+        this.buildWorldFromData(worldData);
+        if (generated) this.cacheWorldData(worldData);
+        onProgress('globe', 1);
+
         console.log('World.init() completed');
+        return true;
     }
 
-    saveWorldDataToFile(data: WorldData) {
-        const jsonString = JSON.stringify(data);
-        const cacheVersion = 'world-data-v7';
-        try {
-            localStorage.setItem(cacheVersion, jsonString);
-            console.log('World data cached (H3 resolution 7):', jsonString.length, 'bytes');
-        } catch (err) {
-            console.warn('Failed to cache world data:', err);
-        }
+    /** Cache key and prebaked file name of this world's terrain. */
+    get cacheKey(): string {
+        return worldCacheKey(this.settings);
     }
 
-    generateWorldData(): WorldData {
-        const resolution = 7; // Resolution 7 gives ~40,000 hexagons for balanced detail/performance
-        const r = this.globeRadius;
-
-        console.log('Generating H3 hexagons at resolution', resolution);
-        
-        // Generate hexagons by sampling latitude/longitude points across the globe
-        const hexagonsSet = new Set<string>();
-        
-        // Sample points across the globe and get H3 cells
-        const latStep = 2;  // Sample every 2 degrees of latitude for resolution 7
-        const lngStep = 2;  // Sample every 2 degrees of longitude for resolution 7
-        
-        for (let lat = -85; lat <= 85; lat += latStep) {
-            for (let lng = -180; lng <= 180; lng += lngStep) {
-                try {
-                    const cellIndex = h3.latLngToCell(lat, lng, resolution);
-                    hexagonsSet.add(cellIndex);
-                } catch (e) {
-                    // Skip invalid cells
-                }
-            }
-        }
-        
-        const hexagons = Array.from(hexagonsSet);
-        console.log(`Generated ${hexagons.length} hexagons at H3 resolution ${resolution}`);
-
-        const hexToIndex = new Map<string, number>();
-        hexagons.forEach((h, i) => hexToIndex.set(h, i));
-
-        const centers = hexagons.map(h => {
-            const [lat, lng] = h3.cellToLatLng(h);
-            return this.latLngToVector3(lat, lng, r);
+    /** Stores generated terrain in the background; a failure only means regenerating next time. */
+    private cacheWorldData(data: WorldData) {
+        const key = this.cacheKey;
+        saveCachedWorld(key, data, this.globeRadius).then(bytes => {
+            if (bytes === null) console.warn(`Failed to cache world ${key}`);
+            else console.log(`World ${key} cached: ${bytes} bytes`);
         });
+    }
 
-        const centerLat = hexagons.map(h => h3.cellToLatLng(h)[0]);
-        const centerLng = hexagons.map(h => h3.cellToLatLng(h)[1]);
+    generateWorldData(earth: EarthData | null = null): WorldData {
+        return generateWorldData(this.globeRadius, this.settings, earth);
+    }
 
-        const centerNeighbors = hexagons.map(h => {
-            const neighbors = h3.gridDisk(h, 1).filter(n => n !== h);
-            return neighbors.map(n => hexToIndex.get(n)!).filter(idx => idx !== undefined);
+    /**
+     * Generates the terrain in a Web Worker, which hands it back in the
+     * binary world format. Falls back to the main thread where workers are
+     * unavailable; null if the worker fails.
+     */
+    private generateInWorker(earth: EarthData | null, onProgress: WorldLoadProgress): Promise<WorldData | null> {
+        if (typeof Worker === 'undefined') return Promise.resolve(this.generateWorldData(earth));
+        return new Promise(resolve => {
+            const worker = new Worker(new URL('./worldWorker.ts', import.meta.url), { type: 'module' });
+            const finish = (data: WorldData | null) => {
+                worker.terminate();
+                resolve(data);
+            };
+            worker.onmessage = (event: MessageEvent<WorldWorkerMessage>) => {
+                const msg = event.data;
+                if (msg.type === 'progress') {
+                    const step = WORLD_GEN_STAGES.indexOf(msg.stage);
+                    onProgress(msg.stage, GENERATION_SHARE * (step + msg.fraction) / WORLD_GEN_STAGES.length);
+                } else if (msg.type === 'done') {
+                    const data = decodeWorldData(msg.bytes);
+                    if (!data) console.error('World worker returned unreadable data');
+                    finish(data);
+                } else {
+                    console.error('World generation failed:', msg.message);
+                    finish(null);
+                }
+            };
+            worker.onerror = (event) => {
+                console.error('World worker crashed:', event.message);
+                finish(null);
+            };
+            const request: WorldWorkerRequest = { radius: this.globeRadius, settings: this.settings, earth };
+            worker.postMessage(request);
         });
+    }
 
-        const centerWater: boolean[] = [];
-        const biomes: Biome[] = [];
-        const elevations: number[] = [];
-
-        // Improved noise function using Perlin-like multi-scale noise
-        const fract = (v: number) => v - Math.floor(v);
-        const hash = (x: number) => fract(Math.sin(x) * 43758.5453123);
-        
-        // Multi-octave noise for realistic terrain
-        const getElevation = (lat: number, lon: number): number => {
-            // Primary continental noise at large scale
-            const continental = 0.5 * (Math.sin(lon * 0.5) * Math.cos(lat * 0.4) + 1);
-            
-            // Mountain ranges at medium scale
-            const mountains = 0.3 * (Math.sin(lon * 2.1 + 10) * Math.cos(lat * 1.8 + 5) + 1);
-            
-            // Local variation
-            const local = 0.2 * hash(lon * 15.7 + lat * 12.3);
-            
-            let elevation = continental * 0.5 + mountains * 0.35 + local * 0.15;
-            
-            // Latitude modifier - higher at poles
-            const latFactor = Math.abs(lat) / 90;
-            elevation = Math.max(0, Math.min(1, elevation + latFactor * 0.15));
-            
-            return Math.max(0, Math.min(1, elevation));
-        };
-
-        for (let i = 0; i < centers.length; i++) {
-            const lat = centerLat[i];
-            const lon = centerLng[i];
-            
-            const elevation = getElevation(lat, lon);
-            const isPole = Math.abs(lat) > 70;
-
-            let biome: Biome = 'land';
-            if (isPole) {
-                biome = 'pole';
-            } else if (elevation < 0.4) {
-                biome = 'ocean';
-            } else if (elevation < 0.45) {
-                biome = 'coast';
-            } else if (elevation > 0.75) {
-                biome = 'mountain';
-            } else {
-                // Determine desert vs forest based on latitude and local noise
-                const latitude_dryness = Math.abs(lat) > 30 ? 0.3 : 0.0; // Deserts at high latitudes
-                const local_dry = hash(lon * 8.5 + lat * 3.2);
-                const dryness = latitude_dryness + local_dry * 0.4;
-                biome = dryness > 0.5 ? 'desert' : 'land';
-            }
-            
-            biomes[i] = biome;
-            elevations[i] = elevation;
-            centerWater[i] = (biome === 'ocean');
+    /** Fetches the bundled Earth raster from public/earth; null if it can't be read. */
+    async loadEarthData(): Promise<EarthData | null> {
+        try {
+            const [bin, regions] = await Promise.all([fetch(EARTH_DATA_URL), fetch(EARTH_REGIONS_URL)]);
+            if (!bin.ok || !regions.ok) return null;
+            return parseEarthData(await bin.arrayBuffer(), await regions.json());
+        } catch (err) {
+            console.warn('Failed to load Earth map data:', err);
+            return null;
         }
+    }
 
-        return {
-            centers: centers.map(c => ({ x: c.x, y: c.y, z: c.z })),
-            centerNeighbors,
-            centerWater,
-            centerLat,
-            centerLng,
-            hexagons,
-            biomes,
-            elevations,
-        };
+    /** Name of the region (country) a hex lies in, or null. */
+    regionName(hexIndex: number): string | null {
+        const region = this.data?.centerRegion[hexIndex] ?? -1;
+        return region >= 0 ? this.data!.regionNames[region] ?? null : null;
     }
 
     buildWorldFromData(data: WorldData) {
+        this.data = data;
         this.centers = data.centers.map(c => new THREE.Vector3(c.x, c.y, c.z));
         this.centerNeighbors = data.centerNeighbors;
         this.centerWater = data.centerWater;
         this.centerLat = data.centerLat;
         this.centerLng = data.centerLng;
         this.hexagons = data.hexagons;
+        this.hexToIndex = new Map(data.hexagons.map((h, i) => [h, i]));
+        this.resolution = data.hexagons.length > 0 ? h3.getResolution(data.hexagons[0]) : 0;
         this.biomes = data.biomes;
         this.elevations = data.elevations;
-        this.centerOwned = new Array(this.centers.length).fill(false);
 
         const sphereGeo = new THREE.SphereGeometry(this.globeRadius, 64, 32);
         const sphereMat = new THREE.MeshStandardMaterial({ color: 0x1a1a2e, roughness: 0.9, metalness: 0.0 });
@@ -260,8 +298,11 @@ export class World {
 
         // Use an InstancedMesh to reduce draw calls and avoid per-mesh state bugs.
         this.hexMeshes = [];
+        this.hexTopRadius = [];
+        this.borderEdgeCache.clear();
 
-        const cylinderGeometry = new THREE.CylinderGeometry(6, 6, 1, 6);
+        // A unit hexagonal prism, scaled and turned per instance to fit its cell
+        const cylinderGeometry = new THREE.CylinderGeometry(1, 1, 1, 6);
         const material = new THREE.MeshStandardMaterial({ 
             flatShading: true,
             roughness: 0.8,
@@ -276,6 +317,9 @@ export class World {
         const dummy = new THREE.Object3D();
         const color = new THREE.Color();
         const epsilon = 0.2; // small offset to avoid z-fighting with globe
+        const basis = new THREE.Matrix4();
+        const side = new THREE.Vector3();
+        let sizeTotal = 0;
 
         for (let i = 0; i < count; i++) {
             const center = this.centers[i];
@@ -289,12 +333,23 @@ export class World {
             // Position instance so base sits on the globe surface (translate outward by half the height)
             const worldPos = normal.clone().multiplyScalar(this.globeRadius + (heightScale * 0.5) + epsilon);
 
+            // Point the prism's first corner (local +Z) at the cell's first boundary vertex
+            const [cornerLat, cornerLng] = h3.cellToBoundary(this.hexagons[i])[0];
+            const v = latLngToVector3(cornerLat, cornerLng, this.globeRadius);
+            const corner = new THREE.Vector3(v.x, v.y, v.z);
+            const size = corner.distanceTo(normal.clone().multiplyScalar(this.globeRadius));
+            sizeTotal += size;
+            const toCorner = corner.sub(normal.clone().multiplyScalar(corner.dot(normal))).normalize();
+            side.crossVectors(normal, toCorner);
+            basis.makeBasis(side, normal, toCorner);
+
             dummy.position.copy(worldPos);
-            dummy.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), normal);
-            dummy.scale.set(1, heightScale, 1);
+            dummy.quaternion.setFromRotationMatrix(basis);
+            dummy.scale.set(size, heightScale, size);
             dummy.updateMatrix();
 
             inst.setMatrixAt(i, dummy.matrix);
+            this.hexTopRadius[i] = this.globeRadius + heightScale + epsilon;
 
             // Set color per instance
             color.setHex(this.getBiomeColor(biome));
@@ -304,187 +359,716 @@ export class World {
 
         inst.instanceMatrix.needsUpdate = true;
         if (inst.instanceColor) inst.instanceColor.needsUpdate = true;
+        this.hexSize = count > 0 ? sizeTotal / count : MODEL_HEX_SIZE;
 
         this.instancedHexMesh = inst;
         this.scene.add(inst);
         console.log(`Built instanced mesh with ${count} instances`);
-    }
 
+        this.buildRivers(data.rivers);
+    }
 
+    /** Rivers as lines across the hex tops, from each course's source to its mouth. */
+    private buildRivers(rivers: number[][]) {
+        const positions: number[] = [];
+        const top = (i: number) => this.centers[i].clone().normalize().multiplyScalar(this.hexTopRadius[i] + 0.05);
+        for (const course of rivers) {
+            for (let k = 1; k < course.length; k++) {
+                const a = top(course[k - 1]);
+                const b = top(course[k]);
+                positions.push(a.x, a.y, a.z, b.x, b.y, b.z);
+            }
+        }
+        this.riverLines = this.addLines(positions, RIVER_COLOR);
+    }
 
-    initGame() {
-        console.log('Game Initialized');
-        this.capitalPlaced = false;
+    /**
+     * Attaches the view to a simulation and repaints from its current state.
+     * `actions` is where player input goes: the simulation itself in
+     * singleplayer, or the NetworkManager when playing online.
+     */
+    bind(simulation: Simulation, actions: SimActions = simulation) {
+        if (this.unsubscribe) this.unsubscribe();
+        this.simulation = simulation;
+        this.actions = actions;
+        this.unsubscribe = simulation.subscribe(event => this.onSimEvent(event));
+        this.redraw();
     }
 
-    spawnCityAtIndex(centerIdx: number, name: string) {
-        const pos = this.centers[centerIdx].clone().normalize().multiplyScalar(this.globeRadius + 6);
+    /** Rebuilds hex colors and building meshes from the bound simulation. */
+    redraw() {
+        this.clearBuildings();
+        this.clearMissiles();
+        for (let i = 0; i < this.centers.length; i++) {
+            this.setHexColor(i, new THREE.Color(this.getBiomeColor(this.biomes[i])));
+        }
+        this.bordersDirty = true;
+        const sim = this.simulation;
+        if (!sim) return;
+        sim.centerOwner.forEach((_owner, i) => this.paintHex(i));
+        sim.buildings.forEach(b => this.spawnBuilding(b));
+        sim.missiles.forEach(m => this.spawnMissile(m));
+        sim.tradeShips.forEach(s => this.spawnTradeShip(s));
+        sim.boats.forEach(b => this.spawnBoat(b));
+        sim.warships.forEach(w => this.spawnWarship(w));
+        sim.bridges.forEach(b => this.spawnBridge(b));
+        sim.roads.forEach(r => this.spawnRoad(r));
+    }
 
-        const geometry = new THREE.BoxGeometry(6, 8, 6);
-        const material = new THREE.MeshStandardMaterial({ color: 0x888888 });
-        const city = new THREE.Mesh(geometry, material);
-        city.position.copy(pos);
-        city.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), pos.clone().normalize());
-        city.castShadow = true;
-        city.receiveShadow = true;
-        this.scene.add(city);
+    private ownerColor(ownerId: number): number | null {
+        const player = this.simulation?.getPlayer(ownerId);
+        return player ? player.color : null;
+    }
 
-        const poleGeo = new THREE.CylinderGeometry(0.2, 0.2, 10, 6);
-        const poleMat = new THREE.MeshStandardMaterial({ color: 0x222222 });
-        const pole = new THREE.Mesh(poleGeo, poleMat);
-        pole.position.copy(pos).add(pos.clone().normalize().multiplyScalar(6));
-        pole.quaternion.copy(city.quaternion);
-        this.scene.add(pole);
+    /** A hex's owner color, else fallout or its biome color when unowned. */
+    private hexColor(hexIndex: number): number {
+        const ownerId = this.simulation ? this.simulation.centerOwner[hexIndex] : NO_OWNER;
+        const fallout = this.simulation?.fallout.has(hexIndex) ? FALLOUT_COLOR : null;
+        return this.ownerColor(ownerId) ?? fallout ?? this.getBiomeColor(this.biomes[hexIndex]);
+    }
 
-        const flagGeo = new THREE.PlaneGeometry(6, 4);
-        const flagMat = new THREE.MeshStandardMaterial({ color: 0xff3333, side: THREE.DoubleSide });
-        const flag = new THREE.Mesh(flagGeo, flagMat);
-        const right = new THREE.Vector3(1, 0, 0).applyQuaternion(pole.quaternion).multiplyScalar(3);
-        flag.position.copy(pole.position).add(right);
-        flag.quaternion.copy(pole.quaternion);
-        this.scene.add(flag);
+    /** Paints a hex in its owner's color, or its biome color when unowned. */
+    private paintHex(hexIndex: number) {
+        this.setHexColor(hexIndex, new THREE.Color(this.hexColor(hexIndex)));
+    }
 
-        this.cities.push({ mesh: city, name, health: 100 });
+    private disposeObject(object: THREE.Object3D) {
+        this.scene.remove(object);
+        object.traverse(obj => {
+            if (obj instanceof THREE.Mesh || obj instanceof THREE.Line) {
+                obj.geometry.dispose();
+                (obj.material as THREE.Material).dispose();
+            }
+        });
+    }
 
-        this.centerOwned[centerIdx] = true;
-        this.territorySize++;
-        if (this.instancedHexMesh) {
-            this.instancedHexMesh.setColorAt(centerIdx, new THREE.Color(0x3366ff));
-            if (this.instancedHexMesh.instanceColor) this.instancedHexMesh.instanceColor.needsUpdate = true;
-        }
+    private clearBuildings() {
+        this.buildings.forEach(b => this.disposeObject(b.mesh));
+        this.buildings = [];
+        this.infrastructure.forEach(v => this.disposeObject(v.mesh));
+        this.infrastructure = [];
     }
 
-    placeCapital(intersection: any): boolean {
-        if (!intersection || !intersection.point) return false;
-        if (this.capitalPlaced) return false; // Only one capital allowed
-        
-        const pt: THREE.Vector3 = intersection.point;
+    private clearMissiles() {
+        [...this.projectiles].forEach(p => this.removeProjectile(p));
+        this.explosions.forEach(e => this.disposeObject(e.mesh));
+        this.explosions = [];
+    }
 
-        let best = -1;
-        let bestd = Infinity;
-        for (let i = 0; i < this.centers.length; i++) {
-            const d = pt.distanceToSquared(this.centers[i]);
-            if (d < bestd) { bestd = d; best = i; }
+    private onSimEvent(event: SimEvent) {
+        switch (event.type) {
+            case 'hexOwned':
+                this.paintHex(event.hexIndex);
+                this.bordersDirty = true;
+                break;
+            case 'conquestProgress': {
+                // Gradually transition the hex to the conqueror's color
+                const target = this.ownerColor(event.playerId);
+                if (target === null) break;
+                const color = new THREE.Color(this.hexColor(event.hexIndex));
+                color.lerp(new THREE.Color(target), event.progress);
+                this.setHexColor(event.hexIndex, color);
+                break;
+            }
+            case 'expansionEnded':
+                // A cancelled or exhausted expansion leaves its half-settled hex as it was
+                if (event.hexIndex >= 0) this.paintHex(event.hexIndex);
+                break;
+            case 'buildingPlaced':
+                this.spawnBuilding(event.building);
+                break;
+            case 'buildingCompleted': {
+                const view = this.buildings.find(b => b.id === event.buildingId);
+                if (view) view.mesh.scale.setScalar(this.modelScale);
+                break;
+            }
+            case 'buildingCaptured': {
+                const view = this.buildings.find(b => b.id === event.buildingId);
+                if (view) {
+                    view.ownerId = event.ownerId;
+                    (view.accent.material as THREE.MeshStandardMaterial).color.setHex(this.ownerColor(event.ownerId) ?? 0xff3333);
+                }
+                break;
+            }
+            case 'buildingDestroyed': {
+                const view = this.buildings.find(b => b.id === event.buildingId);
+                if (view) {
+                    this.disposeObject(view.mesh);
+                    this.buildings = this.buildings.filter(b => b !== view);
+                }
+                break;
+            }
+            case 'bridgeBuilt':
+                this.spawnBridge(event.bridge);
+                break;
+            case 'roadBuilt':
+                this.spawnRoad(event.road);
+                break;
+            case 'bridgeCompleted':
+            case 'roadCompleted': {
+                const kind = event.type === 'bridgeCompleted' ? 'bridge' : 'road';
+                const id = event.type === 'bridgeCompleted' ? event.bridgeId : event.roadId;
+                const view = this.infrastructure.find(v => v.kind === kind && v.id === id);
+                if (view) this.setConstructed(view.mesh, true);
+                break;
+            }
+            case 'bridgeDestroyed':
+            case 'roadDestroyed': {
+                const kind = event.type === 'bridgeDestroyed' ? 'bridge' : 'road';
+                const id = event.type === 'bridgeDestroyed' ? event.bridgeId : event.roadId;
+                const view = this.infrastructure.find(v => v.kind === kind && v.id === id);
+                if (view) {
+                    this.disposeObject(view.mesh);
+                    this.infrastructure = this.infrastructure.filter(v => v !== view);
+                }
+                break;
+            }
+            case 'missileLaunched':
+                this.spawnMissile(event.missile);
+                break;
+            case 'tradeShipLaunched':
+                this.spawnTradeShip(event.ship);
+                break;
+            case 'tradeShipArrived':
+            case 'tradeShipLost': {
+                const p = this.projectiles.find(p => p.tradeShipId === event.shipId);
+                if (p) this.removeProjectile(p);
+                break;
+            }
+            case 'boatLaunched':
+                this.spawnBoat(event.boat);
+                break;
+            case 'boatLanded':
+            case 'boatSunk': {
+                const p = this.projectiles.find(p => p.boatId === event.boatId);
+                if (p) this.removeProjectile(p);
+                break;
+            }
+            case 'warshipBuilt':
+                this.spawnWarship(event.warship);
+                break;
+            case 'warshipMoved': {
+                const p = this.projectiles.find(p => p.warshipId === event.warshipId);
+                if (p) this.removeProjectile(p);
+                const ship = this.simulation?.warships.find(w => w.id === event.warshipId);
+                if (ship) this.spawnWarship(ship);
+                break;
+            }
+            case 'warshipFired': {
+                const p = this.projectiles.find(p => event.target === 'boat' ? p.boatId === event.targetId
+                    : event.target === 'warship' ? p.warshipId === event.targetId : p.tradeShipId === event.targetId);
+                if (p) this.spawnExplosion(p.mesh.position.clone(), 3, 0.5, 0xffaa33);
+                break;
+            }
+            case 'warshipSunk': {
+                const p = this.projectiles.find(p => p.warshipId === event.warshipId);
+                if (p) {
+                    this.spawnExplosion(p.mesh.position.clone(), 5, 0.8, 0xff6622);
+                    this.removeProjectile(p);
+                }
+                break;
+            }
+            case 'missileIntercepted': {
+                const p = this.projectiles.find(p => p.missileId === event.missileId);
+                if (p) {
+                    this.spawnExplosion(p.mesh.position.clone(), 4, 0.6, 0xffffff);
+                    this.removeProjectile(p);
+                }
+                break;
+            }
+            case 'missileImpact': {
+                const p = this.projectiles.find(p => p.missileId === event.missileId);
+                if (p) this.removeProjectile(p);
+                // Blast size follows the outermost hex it reached
+                const center = this.centers[event.hexIndex];
+                const edge = this.centers[event.blastHexes[event.blastHexes.length - 1]];
+                const pos = center.clone().normalize().multiplyScalar(this.hexTopRadius[event.hexIndex] ?? this.globeRadius);
+                this.spawnExplosion(pos, Math.max(4, center.distanceTo(edge)), event.irradiated ? 2.5 : 1, event.irradiated ? 0xffaa33 : 0xff6622);
+                if (event.irradiated) event.blastHexes.forEach(h => this.paintHex(h));
+                break;
+            }
+            case 'falloutCleared':
+                event.hexIndices.forEach(h => this.paintHex(h));
+                break;
+            case 'allianceFormed':
+            case 'allianceBroken':
+                this.bordersDirty = true;
+                break;
+            case 'playerAdded':
+            case 'attackStarted':
+            case 'attackEnded':
+                break;
         }
-        if (best === -1) return false;
-        if (this.centerWater[best]) return false;
+    }
 
-        this.capitalPlaced = true;
-        this.spawnCityAtIndex(best, 'Capital');
-        return true;
+    private setHexColor(hexIndex: number, color: THREE.Color) {
+        if (!this.instancedHexMesh) return;
+        if (this.selectedHexes.has(hexIndex)) color.lerp(WHITE, SELECT_LIGHTEN);
+        else if (hexIndex === this.hoveredHex) color.lerp(WHITE, HOVER_LIGHTEN);
+        this.instancedHexMesh.setColorAt(hexIndex, color);
+        if (this.instancedHexMesh.instanceColor) this.instancedHexMesh.instanceColor.needsUpdate = true;
     }
 
-    isSea(input: any) {
-        let pt: THREE.Vector3 | null = null;
-        if (input && input.point) pt = input.point as THREE.Vector3;
-        else if (input instanceof THREE.Vector3) pt = input;
-        if (!pt) return true;
+    /** Lightens the hovered and selected hexes, repainting whichever were lit before. */
+    highlightHexes(hovered: number | null, selected: number[]) {
+        const previous = [this.hoveredHex, ...this.selectedHexes];
+        this.hoveredHex = hovered ?? -1;
+        this.selectedHexes = new Set(selected);
+        new Set([...previous, this.hoveredHex, ...selected]).forEach(h => {
+            if (h >= 0 && h < this.centers.length) this.paintHex(h);
+        });
+    }
 
-        let best = -1;
-        let bestd = Infinity;
-        for (let i = 0; i < this.centers.length; i++) {
-            const d = pt.distanceToSquared(this.centers[i]);
-            if (d < bestd) { bestd = d; best = i; }
-        }
-        if (best === -1) return true;
-        return !!this.centerWater[best];
+    /** Building models keep their size relative to the hexes at every resolution. */
+    get modelScale(): number {
+        return Math.min(1, this.hexSize / MODEL_HEX_SIZE);
     }
 
-    startExpansion(intersection: any, troopsToSend: number): boolean {
-        if (!intersection || !intersection.point) return false;
-        if (troopsToSend <= 0) return false;
-        
-        const pt: THREE.Vector3 = intersection.point;
+    /** Adds the model for a building: a body in the type's color and an owner-colored flag. */
+    spawnBuilding(building: Building) {
+        const model = BUILDING_MODELS[building.type];
+        const scale = this.modelScale;
+        const pos = this.centers[building.hexIndex].clone().normalize().multiplyScalar(this.globeRadius + 6 * scale);
+        const up = pos.clone().normalize();
+        const group = new THREE.Group();
+        // Models are built around the hex center so construction can scale them in place
+        group.position.copy(pos);
+        group.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), up);
 
-        let best = -1;
-        let bestd = Infinity;
-        for (let i = 0; i < this.centers.length; i++) {
-            const d = pt.distanceToSquared(this.centers[i]);
-            if (d < bestd) { bestd = d; best = i; }
+        const [w, h, d] = model.size;
+        const body = new THREE.Mesh(new THREE.BoxGeometry(w, h, d), new THREE.MeshStandardMaterial({ color: model.color }));
+        body.castShadow = true;
+        body.receiveShadow = true;
+        group.add(body);
+
+        const pole = new THREE.Mesh(new THREE.CylinderGeometry(0.2, 0.2, 10, 6), new THREE.MeshStandardMaterial({ color: 0x222222 }));
+        pole.position.set(0, 0, 6);
+        group.add(pole);
+
+        const accentMat = new THREE.MeshStandardMaterial({ color: this.ownerColor(building.ownerId) ?? 0xff3333, side: THREE.DoubleSide });
+        // The capital flies a larger flag than ordinary buildings
+        const accent = new THREE.Mesh(building.isCapital ? new THREE.PlaneGeometry(6, 4) : new THREE.PlaneGeometry(4, 2.5), accentMat);
+        accent.position.set(building.isCapital ? 3 : 2, 0, 6);
+        group.add(accent);
+
+        group.scale.setScalar(isOperational(building) ? scale : scale * CONSTRUCTION_SCALE);
+        this.scene.add(group);
+        this.buildings.push({ id: building.id, mesh: group, accent, hexIndex: building.hexIndex, ownerId: building.ownerId, name: building.name });
+    }
+
+    /**
+     * Launches the view of a sim missile: a rocket following a great-circle
+     * arc from the silo to the target, higher for longer flights.
+     */
+    spawnMissile(missile: MissileInFlight) {
+        const from = this.centers[missile.siloHexIndex].clone().normalize();
+        const to = this.centers[missile.targetHexIndex].clone().normalize();
+        const angle = from.angleTo(to);
+        const apex = 20 + angle * 60;
+        const points: THREE.Vector3[] = [];
+        const q = new THREE.Quaternion();
+        const full = new THREE.Quaternion().setFromUnitVectors(from, to);
+        for (let i = 0; i <= 64; i++) {
+            const t = i / 64;
+            q.identity().slerp(full, t);
+            const altitude = this.globeRadius + 8 + Math.sin(Math.PI * t) * apex;
+            points.push(from.clone().applyQuaternion(q).multiplyScalar(altitude));
         }
-        if (best === -1) return false;
+        const curve = new THREE.CatmullRomCurve3(points);
 
-        if (this.centerWater[best]) return false;
-        if (this.centerOwned[best]) return false; // Already owned
+        const rocket = new THREE.Group();
+        const body = new THREE.Mesh(new THREE.CylinderGeometry(0.8, 0.8, 5, 8), new THREE.MeshStandardMaterial({ color: 0xcccccc }));
+        rocket.add(body);
+        const nose = new THREE.Mesh(new THREE.ConeGeometry(0.8, 2, 8), new THREE.MeshStandardMaterial({ color: WARHEAD_COLORS[missile.type] }));
+        nose.position.y = 3.5;
+        rocket.add(nose);
+        this.scene.add(rocket);
 
-        const anyOwned = this.centerOwned.some(v => v);
-        if (anyOwned) {
-            const neigh = this.centerNeighbors[best] || [];
-            const adjacent = neigh.some(n => this.centerOwned[n]);
-            if (!adjacent) return false; // Must be adjacent to owned territory
+        const trailGeo = new THREE.BufferGeometry();
+        trailGeo.setAttribute('position', new THREE.Float32BufferAttribute(new Float32Array(TRAIL_POINTS * 3), 3));
+        const trail = new THREE.Line(trailGeo, new THREE.LineBasicMaterial({ color: 0xffaa55, transparent: true, opacity: 0.8 }));
+        this.scene.add(trail);
+
+        // In a replica or redraw the missile may already be partway there
+        const elapsed = this.simulation ? (this.simulation.tick - missile.launchTick) * TICK_SECONDS : 0;
+        const projectile: Projectile = {
+            mesh: rocket,
+            curve,
+            progress: Math.min(1, Math.max(0, elapsed / missile.flightTime)),
+            speed: 1 / missile.flightTime,
+            missileId: missile.id,
+            trail,
+        };
+        this.projectiles.push(projectile);
+        this.placeProjectile(projectile);
+    }
+
+    /**
+     * Launches the view of a sim trade ship: a small hull in its owner's
+     * color skimming the globe from one port to the other.
+     */
+    spawnTradeShip(ship: TradeShip) {
+        const from = this.centers[ship.fromHexIndex].clone().normalize();
+        const to = this.centers[ship.toHexIndex].clone().normalize();
+        const points: THREE.Vector3[] = [];
+        const q = new THREE.Quaternion();
+        const full = new THREE.Quaternion().setFromUnitVectors(from, to);
+        for (let i = 0; i <= 32; i++) {
+            q.identity().slerp(full, i / 32);
+            points.push(from.clone().applyQuaternion(q).multiplyScalar(this.globeRadius + 3));
         }
 
-        // Start conquest with time based on troops sent
-        // More troops = faster conquest. Base time is 3 seconds, reduced by troop count
-        const baseConquestTime = 3.0;
-        const troopBonus = Math.min(2.0, troopsToSend / 100); // Bonus multiplier capped at 2x speed
-        const totalTimeNeeded = baseConquestTime / troopBonus;
-        
-        this.conquestInProgress = {
-            hexIndex: best,
-            troopsAllocated: troopsToSend,
-            timeElapsed: 0,
-            totalTimeNeeded
+        const hull = this.shipMesh(this.ownerColor(ship.ownerId) ?? 0x8b5a2b, 0xffffff, 1);
+
+        const elapsed = this.simulation ? (this.simulation.tick - ship.launchTick) * TICK_SECONDS : 0;
+        const projectile: Projectile = {
+            mesh: hull,
+            curve: new THREE.CatmullRomCurve3(points),
+            progress: Math.min(1, Math.max(0, elapsed / ship.voyageTime)),
+            speed: 1 / ship.voyageTime,
+            tradeShipId: ship.id,
         };
-        
-        return true;
+        this.projectiles.push(projectile);
+        this.placeProjectile(projectile);
     }
 
-    attack(intersection: THREE.Intersection) {
-        console.log('attack called', intersection);
+    /** A hull pointing along +y with a cabin on deck, added to the scene. */
+    private shipMesh(hullColor: number, cabinColor: number, size: number): THREE.Group {
+        const ship = new THREE.Group();
+        ship.add(new THREE.Mesh(new THREE.BoxGeometry(1.6, 4, 1), new THREE.MeshStandardMaterial({ color: hullColor })));
+        const cabin = new THREE.Mesh(new THREE.BoxGeometry(1.2, 1.2, 1.2), new THREE.MeshStandardMaterial({ color: cabinColor }));
+        cabin.position.set(0, -0.8, 0.9);
+        ship.add(cabin);
+        ship.scale.setScalar(size);
+        this.scene.add(ship);
+        return ship;
     }
 
-    completeConquest() {
-        if (!this.conquestInProgress) return;
-        
-        const hexIndex = this.conquestInProgress.hexIndex;
-        this.centerOwned[hexIndex] = true;
-        this.territorySize++;
-        if (this.instancedHexMesh) {
-            this.instancedHexMesh.setColorAt(hexIndex, new THREE.Color(0x3366ff));
-            if (this.instancedHexMesh.instanceColor) this.instancedHexMesh.instanceColor.needsUpdate = true;
+    /** A curve through the centers of a hex route, just above the water. */
+    private seaCurve(path: number[]): THREE.CatmullRomCurve3 {
+        const points = path.map(h => this.centers[h].clone().normalize().multiplyScalar(Math.max(this.globeRadius + 3, (this.hexTopRadius[h] ?? 0) + 1)));
+        // A curve needs two points; a ship at rest sits on both
+        if (points.length === 1) points.push(points[0].clone());
+        return new THREE.CatmullRomCurve3(points);
+    }
+
+    /** Shows a transport boat sailing its route, in its owner's color. */
+    spawnBoat(boat: TransportBoat) {
+        const mesh = this.shipMesh(this.ownerColor(boat.ownerId) ?? 0xffffff, 0x8b5a2b, 0.8);
+        const duration = Math.max(TICK_SECONDS, (boat.path.length - 1) / BOAT_SPEED);
+        const elapsed = this.simulation ? (this.simulation.tick - boat.launchTick) * TICK_SECONDS : 0;
+        const projectile: Projectile = {
+            mesh,
+            curve: this.seaCurve(boat.path),
+            progress: Math.min(1, Math.max(0, elapsed / duration)),
+            speed: 1 / duration,
+            boatId: boat.id,
+        };
+        this.projectiles.push(projectile);
+        this.placeProjectile(projectile);
+    }
+
+    /** Shows a warship on its current patrol leg: a bigger grey hull with its owner's color on deck. */
+    spawnWarship(ship: Warship) {
+        const mesh = this.shipMesh(0x57606f, this.ownerColor(ship.ownerId) ?? 0xffffff, 1.6);
+        const duration = Math.max(TICK_SECONDS, (ship.path.length - 1) / WARSHIP_SPEED);
+        const elapsed = this.simulation ? (this.simulation.tick - ship.legStartTick) * TICK_SECONDS : 0;
+        const projectile: Projectile = {
+            mesh,
+            curve: this.seaCurve(ship.path),
+            progress: Math.min(1, Math.max(0, elapsed / duration)),
+            speed: 1 / duration,
+            warshipId: ship.id,
+        };
+        this.projectiles.push(projectile);
+        this.placeProjectile(projectile);
+    }
+
+    /**
+     * Shows a bridge: a deck arching from shore to shore over the strait,
+     * standing on pillars in each water hex it spans.
+     */
+    spawnBridge(bridge: Bridge) {
+        const group = new THREE.Group();
+        const ends = [bridge.path[0], bridge.path[bridge.path.length - 1]];
+        const from = this.centers[ends[0]].clone().normalize();
+        const to = this.centers[ends[1]].clone().normalize();
+        const base = Math.max(this.hexTopRadius[ends[0]] ?? 0, this.hexTopRadius[ends[1]] ?? 0, this.globeRadius) + 0.5;
+        const rise = 3 + (bridge.path.length - 2) * 2;
+        const full = new THREE.Quaternion().setFromUnitVectors(from, to);
+        const q = new THREE.Quaternion();
+        const points: THREE.Vector3[] = [];
+        for (let i = 0; i <= 16; i++) {
+            q.identity().slerp(full, i / 16);
+            points.push(from.clone().applyQuaternion(q).multiplyScalar(base + Math.sin(Math.PI * i / 16) * rise));
+        }
+        const color = this.ownerColor(bridge.ownerId) ?? 0xaaaaaa;
+        group.add(new THREE.Mesh(
+            new THREE.TubeGeometry(new THREE.CatmullRomCurve3(points), 32, 0.6, 6, false),
+            new THREE.MeshStandardMaterial({ color: 0xb0a89a })
+        ));
+        for (const h of bridge.path.slice(1, -1)) {
+            const bottom = this.centers[h].clone().normalize().multiplyScalar(this.globeRadius);
+            const top = bottom.clone().normalize().multiplyScalar(base + rise * 0.8);
+            const height = bottom.distanceTo(top);
+            const pillar = new THREE.Mesh(new THREE.CylinderGeometry(0.4, 0.6, height, 6), new THREE.MeshStandardMaterial({ color }));
+            pillar.position.copy(bottom).lerp(top, 0.5);
+            pillar.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), bottom.clone().normalize());
+            group.add(pillar);
         }
-        
-        console.log(`Conquered hex ${hexIndex} with ${this.conquestInProgress.troopsAllocated} troops`);
-        this.conquestInProgress = null;
-    }
-
-    update(delta: number, _gameActive: boolean) {
-        // Update conquest progress
-        if (this.conquestInProgress) {
-            this.conquestInProgress.timeElapsed += delta;
-            
-            // Update hex color to show progress (gradually transition to blue)
-            const progress = Math.min(1, this.conquestInProgress.timeElapsed / this.conquestInProgress.totalTimeNeeded);
-            const hexIndex = this.conquestInProgress.hexIndex;
-            if (this.instancedHexMesh) {
-                const origHex = this.getBiomeColor(this.biomes[hexIndex]);
-                const originalColor = new THREE.Color(origHex);
-                originalColor.lerp(new THREE.Color(0x3366ff), progress);
-                this.instancedHexMesh.setColorAt(hexIndex, originalColor);
-                if (this.instancedHexMesh.instanceColor) this.instancedHexMesh.instanceColor.needsUpdate = true;
+        this.setConstructed(group, bridge.constructionLeft <= 0);
+        this.scene.add(group);
+        this.infrastructure.push({ kind: 'bridge', id: bridge.id, mesh: group });
+    }
+
+    /** Shows a road or railroad as a tube along its hexes, just above the ground. */
+    spawnRoad(road: Road) {
+        const model = ROAD_MODELS[road.type];
+        const points = road.path.map(h => this.centers[h].clone().normalize().multiplyScalar((this.hexTopRadius[h] ?? this.globeRadius) + 0.3));
+        if (points.length === 1) points.push(points[0].clone());
+        const mesh = new THREE.Mesh(
+            new THREE.TubeGeometry(new THREE.CatmullRomCurve3(points), Math.max(8, points.length * 4), model.radius, 5, false),
+            new THREE.MeshStandardMaterial({ color: model.color })
+        );
+        this.setConstructed(mesh, road.constructionLeft <= 0);
+        this.scene.add(mesh);
+        this.infrastructure.push({ kind: 'road', id: road.id, mesh });
+    }
+
+    /** Shows infrastructure see-through until its construction finishes. */
+    private setConstructed(object: THREE.Object3D, done: boolean) {
+        object.traverse(obj => {
+            if (!(obj instanceof THREE.Mesh)) return;
+            const material = obj.material as THREE.Material;
+            material.transparent = !done;
+            material.opacity = done ? 1 : CONSTRUCTION_OPACITY;
+            material.needsUpdate = true;
+        });
+    }
+
+    /** Moves a projectile and its trail to its current progress, nose along the flight path. */
+    private placeProjectile(p: Projectile) {
+        const t = Math.min(1, p.progress);
+        p.mesh.position.copy(p.curve.getPoint(t));
+        const tangent = p.curve.getTangent(t);
+        // A ship at rest has no heading; keep the last one
+        if (tangent.lengthSq() > 1e-12) p.mesh.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), tangent);
+        if (!p.trail) return;
+        const attr = p.trail.geometry.getAttribute('position') as THREE.BufferAttribute;
+        const start = Math.max(0, t - TRAIL_LENGTH);
+        for (let i = 0; i < TRAIL_POINTS; i++) {
+            const pt = p.curve.getPoint(start + (t - start) * (i / (TRAIL_POINTS - 1)));
+            attr.setXYZ(i, pt.x, pt.y, pt.z);
+        }
+        attr.needsUpdate = true;
+    }
+
+    private removeProjectile(p: Projectile) {
+        this.disposeObject(p.mesh);
+        if (p.trail) this.disposeObject(p.trail);
+        this.projectiles = this.projectiles.filter(other => other !== p);
+    }
+
+    /** A fireball that swells to `size` and fades over `duration` seconds. */
+    private spawnExplosion(position: THREE.Vector3, size: number, duration: number, color: number) {
+        const material = new THREE.MeshBasicMaterial({ color, transparent: true, opacity: 0.9 });
+        const mesh = new THREE.Mesh(new THREE.SphereGeometry(1, 16, 12), material);
+        mesh.position.copy(position);
+        mesh.scale.setScalar(0.1);
+        this.scene.add(mesh);
+        this.explosions.push({ mesh, age: 0, duration, maxScale: size });
+    }
+
+    /** World-space endpoints of the edge shared by two neighboring hexes, raised above both. */
+    private getEdgeVertices(a: number, b: number): number[] {
+        const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+        let verts = this.borderEdgeCache.get(key);
+        if (verts) return verts;
+        verts = [];
+        try {
+            const edge = h3.cellsToDirectedEdge(this.hexagons[a], this.hexagons[b]);
+            const radius = Math.max(this.hexTopRadius[a], this.hexTopRadius[b]) + 0.1;
+            for (const [lat, lng] of h3.directedEdgeToBoundary(edge)) {
+                const v = latLngToVector3(lat, lng, radius);
+                verts.push(v.x, v.y, v.z);
             }
-            
-            if (this.conquestInProgress.timeElapsed >= this.conquestInProgress.totalTimeNeeded) {
-                this.completeConquest();
+        } catch {
+            // Not actually neighbors at this resolution; draw nothing
+        }
+        this.borderEdgeCache.set(key, verts);
+        return verts;
+    }
+
+    /**
+     * Rebuilds the outline drawn wherever a hex borders a hex with a different
+     * owner. Borders between allies are drawn in a light color instead.
+     */
+    private rebuildBorders() {
+        this.bordersDirty = false;
+        for (const lines of [this.borderLines, this.allianceLines]) {
+            if (!lines) continue;
+            this.scene.remove(lines);
+            lines.geometry.dispose();
+            (lines.material as THREE.Material).dispose();
+        }
+        this.borderLines = null;
+        this.allianceLines = null;
+        const sim = this.simulation;
+        if (!sim) return;
+
+        const positions: number[] = [];
+        const alliedPositions: number[] = [];
+        const owner = sim.centerOwner;
+        for (let i = 0; i < owner.length; i++) {
+            if (owner[i] === NO_OWNER) continue;
+            for (const n of this.centerNeighbors[i]) {
+                if (owner[n] === owner[i]) continue;
+                // Edges between two nations would be found from both sides
+                if (owner[n] !== NO_OWNER && n < i) continue;
+                const verts = this.getEdgeVertices(i, n);
+                const target = owner[n] !== NO_OWNER && sim.diplomacy.isAllied(owner[i], owner[n]) ? alliedPositions : positions;
+                for (let k = 0; k + 5 < verts.length; k += 3) target.push(...verts.slice(k, k + 6));
             }
         }
-        
-        for (let i = this.projectiles.length - 1; i >= 0; i--) {
-            const p = this.projectiles[i];
+        this.borderLines = this.addLines(positions, 0x111111);
+        this.allianceLines = this.addLines(alliedPositions, 0xf8fafc);
+    }
+
+    private addLines(positions: number[], color: number): THREE.LineSegments | null {
+        if (positions.length === 0) return null;
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+        const lines = new THREE.LineSegments(geometry, new THREE.LineBasicMaterial({ color }));
+        this.scene.add(lines);
+        return lines;
+    }
+
+    /** Returns the index of the hex under a raycast hit or point, or -1. Hex indices pass through. */
+    findHexIndex(input: HexTarget): number {
+        if (typeof input === 'number') return input >= 0 && input < this.centers.length ? input : -1;
+        if (input instanceof THREE.Vector3) return this.hexAtPoint(input);
+        // A hit on the hex mesh already names the instance, which is the hex index
+        if (input.object === this.instancedHexMesh && input.instanceId !== undefined) return input.instanceId;
+        return this.hexAtPoint(input.point);
+    }
+
+    /**
+     * Hex in the direction of a point from the globe's center. One H3 lookup
+     * instead of a scan over every hex, so it is cheap enough to run per frame.
+     */
+    hexAtPoint(point: THREE.Vector3): number {
+        if (this.hexagons.length === 0 || point.lengthSq() === 0) return -1;
+        const { lat, lng } = vector3ToLatLng(point.x, point.y, point.z);
+        return this.hexToIndex.get(h3.latLngToCell(lat, lng, this.resolution)) ?? -1;
+    }
+
+    placeCapital(playerId: number, intersection: HexTarget): boolean {
+        if (!this.actions) return false;
+        const best = this.findHexIndex(intersection);
+        if (best === -1) return false;
+        return this.actions.placeCapital(playerId, best);
+    }
+
+    build(playerId: number, intersection: HexTarget, type: BuildingType): boolean {
+        if (!this.actions) return false;
+        const best = this.findHexIndex(intersection);
+        if (best === -1) return false;
+        return this.actions.build(playerId, best, type);
+    }
+
+    isSea(input: HexTarget): boolean {
+        const best = this.findHexIndex(input);
+        if (best === -1) return true;
+        return !!this.centerWater[best];
+    }
+
+    startExpansion(playerId: number, intersection: HexTarget, troopsToSend: number, speed?: number): boolean {
+        if (!this.actions) return false;
+        const best = this.findHexIndex(intersection);
+        if (best === -1) return false;
+        return this.actions.startExpansion(playerId, best, troopsToSend, speed);
+    }
+
+    launchMissile(playerId: number, intersection: HexTarget, type: MissileType): boolean {
+        if (!this.actions) return false;
+        const best = this.findHexIndex(intersection);
+        if (best === -1) return false;
+        return this.actions.launchMissile(playerId, best, type);
+    }
+
+    attack(playerId: number, intersection: HexTarget, troopsToSend: number): boolean {
+        if (!this.actions) return false;
+        const best = this.findHexIndex(intersection);
+        if (best === -1) return false;
+        return this.actions.attack(playerId, best, troopsToSend);
+    }
+
+    launchBoat(playerId: number, intersection: HexTarget, troopsToSend: number): boolean {
+        if (!this.actions) return false;
+        const best = this.findHexIndex(intersection);
+        if (best === -1) return false;
+        return this.actions.launchBoat(playerId, best, troopsToSend);
+    }
+
+    buildWarship(playerId: number, intersection: HexTarget): boolean {
+        if (!this.actions) return false;
+        const best = this.findHexIndex(intersection);
+        if (best === -1) return false;
+        return this.actions.buildWarship(playerId, best);
+    }
+
+    buildBridge(playerId: number, intersection: HexTarget): boolean {
+        if (!this.actions) return false;
+        const best = this.findHexIndex(intersection);
+        if (best === -1) return false;
+        return this.actions.buildBridge(playerId, best);
+    }
+
+    buildRoad(playerId: number, intersection: HexTarget, type: RoadType): boolean {
+        if (!this.actions) return false;
+        const best = this.findHexIndex(intersection);
+        if (best === -1) return false;
+        return this.actions.buildRoad(playerId, best, type);
+    }
+
+    update(delta: number) {
+        if (this.bordersDirty) this.rebuildBorders();
+
+        for (const p of [...this.projectiles]) {
             p.progress += delta * p.speed;
-            if (p.progress >= 1) {
-                this.scene.remove(p.mesh);
-                this.projectiles.splice(i, 1);
+            // Missiles and ships wait at the end of their path until the sim reports how it ended
+            const simulated = p.missileId ?? p.tradeShipId ?? p.boatId ?? p.warshipId;
+            if (p.progress >= 1 && simulated === undefined) {
+                this.removeProjectile(p);
                 if (p.onComplete) p.onComplete();
             } else {
-                const pos = p.curve.getPoint(p.progress);
-                p.mesh.position.copy(pos);
+                this.placeProjectile(p);
             }
         }
+
+        for (const e of [...this.explosions]) {
+            e.age += delta;
+            const t = e.age / e.duration;
+            if (t >= 1) {
+                this.disposeObject(e.mesh);
+                this.explosions = this.explosions.filter(other => other !== e);
+                continue;
+            }
+            e.mesh.scale.setScalar(0.1 + (e.maxScale - 0.1) * Math.sqrt(t));
+            (e.mesh.material as THREE.MeshBasicMaterial).opacity = 0.9 * (1 - t);
+        }
     }
 
     destroy() {
+        if (this.unsubscribe) {
+            this.unsubscribe();
+            this.unsubscribe = null;
+        }
+        this.clearBuildings();
+        this.clearMissiles();
+        this.simulation = null;
+        this.actions = null;
+        this.rebuildBorders();
         // Dispose instanced mesh if present
         if (this.instancedHexMesh) {
             this.scene.remove(this.instancedHexMesh);
@@ -493,6 +1077,10 @@ export class World {
             this.instancedHexMesh = null;
         }
         this.hexMeshes = [];
+        if (this.riverLines) {
+            this.disposeObject(this.riverLines);
+            this.riverLines = null;
+        }
         if (this.globe) {
             this.scene.remove(this.globe);
             this.globe.geometry.dispose();
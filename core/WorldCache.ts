@@ -0,0 +1,119 @@
+import { decodeWorldData, encodeWorldData } from './sim/WorldFormat';
+import type { WorldData } from './sim/types';
+
+// Browser-side storage for generated worlds: the binary format from
+// WorldFormat.ts, gzipped, in IndexedDB under the world's cache key. Also
+// reads prebaked worlds from public/worlds, which use the same bytes. Every
+// function resolves to null or false on failure instead of throwing, since a
+// missing cache only costs a regeneration.
+
+const DB_NAME = 'sketchi';
+const STORE = 'worlds';
+/** Worlds kept in IndexedDB; the least recently saved beyond this are dropped. */
+const MAX_CACHED_WORLDS = 4;
+/** Where prebaked worlds are served from: `${PREBAKED_WORLDS_URL}/${key}.bin`. */
+export const PREBAKED_WORLDS_URL = '/worlds';
+
+interface CachedWorld {
+    key: string;
+    savedAt: number;
+    bytes: ArrayBuffer;
+}
+
+function openDb(): Promise<IDBDatabase | null> {
+    return new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') return resolve(null);
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'key' });
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(null);
+    });
+}
+
+const isGzip = (bytes: Uint8Array) => bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+/** Pipes bytes through a (de)compression stream; null where the browser has none. */
+async function transform(bytes: ArrayBuffer, stream: CompressionStream | DecompressionStream): Promise<ArrayBuffer | null> {
+    try {
+        return await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer();
+    } catch {
+        return null;
+    }
+}
+
+export async function compressWorld(data: WorldData, radius: number): Promise<ArrayBuffer> {
+    const raw = encodeWorldData(data, radius);
+    if (typeof CompressionStream === 'undefined') return raw;
+    return (await transform(raw, new CompressionStream('gzip'))) ?? raw;
+}
+
+/** Decodes stored or downloaded world bytes, gzipped or not. */
+export async function decompressWorld(bytes: ArrayBuffer): Promise<WorldData | null> {
+    if (isGzip(new Uint8Array(bytes))) {
+        if (typeof DecompressionStream === 'undefined') return null;
+        const raw = await transform(bytes, new DecompressionStream('gzip'));
+        return raw ? decodeWorldData(raw) : null;
+    }
+    return decodeWorldData(bytes);
+}
+
+export async function loadCachedWorld(key: string): Promise<WorldData | null> {
+    const db = await openDb();
+    if (!db) return null;
+    const entry = await new Promise<CachedWorld | undefined>(resolve => {
+        const request = db.transaction(STORE, 'readonly').objectStore(STORE).get(key);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(undefined);
+    });
+    db.close();
+    return entry ? decompressWorld(entry.bytes) : null;
+}
+
+/** Stores a world and drops the oldest ones past MAX_CACHED_WORLDS. Returns the stored size, or null. */
+export async function saveCachedWorld(key: string, data: WorldData, radius: number): Promise<number | null> {
+    const db = await openDb();
+    if (!db) return null;
+    const bytes = await compressWorld(data, radius);
+    const saved = await new Promise<boolean>(resolve => {
+        const tx = db.transaction(STORE, 'readwrite');
+        const store = tx.objectStore(STORE);
+        const entry: CachedWorld = { key, savedAt: Date.now(), bytes };
+        store.put(entry);
+        const all = store.getAll();
+        all.onsuccess = () => {
+            const stale = (all.result as CachedWorld[])
+                .filter(w => w.key !== key)
+                .sort((a, b) => b.savedAt - a.savedAt)
+                .slice(MAX_CACHED_WORLDS - 1);
+            stale.forEach(w => store.delete(w.key));
+        };
+        tx.oncomplete = () => resolve(true);
+        tx.onerror = () => resolve(false);
+        tx.onabort = () => resolve(false);
+    });
+    db.close();
+    return saved ? bytes.byteLength : null;
+}
+
+/** A world baked into public/worlds by `npm run bake-world`, if the site ships one. */
+export async function loadPrebakedWorld(key: string): Promise<WorldData | null> {
+    try {
+        const response = await fetch(`${PREBAKED_WORLDS_URL}/${key}.bin`);
+        if (!response.ok) return null;
+        return decompressWorld(await response.arrayBuffer());
+    } catch {
+        return null;
+    }
+}
+
+/** Frees the localStorage quota held by the JSON caches older builds wrote. */
+export function clearLegacyWorldCache() {
+    try {
+        for (let i = localStorage.length - 1; i >= 0; i--) {
+            const key = localStorage.key(i);
+            if (key && key.startsWith('world-data-')) localStorage.removeItem(key);
+        }
+    } catch {
+        // Storage disabled: nothing to clear
+    }
+}
@@ -0,0 +1,113 @@
+import type { SimEvent, SimSnapshot } from '../sim/Simulation';
+import type { PlayerStats } from '../sim/Player';
+import { BUILDING_TYPES, BuildingType } from '../sim/Buildings';
+import { MISSILE_TYPES, MissileType } from '../sim/Missiles';
+import { DIPLOMACY_ACTIONS, DiplomacyAction } from '../sim/Diplomacy';
+import { ROAD_TYPES, RoadType } from '../sim/Infrastructure';
+import type { WorldSettings } from '../sim/WorldSettings';
+
+// Wire format shared by NetworkManager and the Node server. Messages are JSON
+// objects discriminated by `type`; bump PROTOCOL_VERSION on breaking changes.
+
+export const PROTOCOL_VERSION = 13;
+export const DEFAULT_SERVER_URL = 'ws://localhost:8080';
+/** Hex steps from a player's assigned spawn within which the server accepts their capital. */
+export const SPAWN_RADIUS = 3;
+
+export type Intent =
+    | { kind: 'expand'; hexIndex: number; troops: number; speed?: number }
+    | { kind: 'cancelExpansion'; expansionId: number }
+    | { kind: 'attack'; hexIndex: number; troops: number }
+    | { kind: 'build'; hexIndex: number; building: 'capital' | BuildingType }
+    | { kind: 'launch'; hexIndex: number; missile: MissileType }
+    | { kind: 'diplomacy'; targetId: number; action: DiplomacyAction }
+    | { kind: 'focus'; focus: number }
+    | { kind: 'boat'; hexIndex: number; troops: number }
+    | { kind: 'warship'; hexIndex: number }
+    | { kind: 'bridge'; hexIndex: number }
+    | { kind: 'road'; hexIndex: number; road: RoadType };
+
+/** Lobby membership; `id` is the player's id in the match Simulation. */
+export interface PlayerInfo {
+    id: number;
+    name: string;
+    color: number;
+    spawnHex: number;
+    connected: boolean;
+}
+
+export type ClientMessage =
+    /** `playerId` and `reconnectToken` from an earlier welcome reclaim that nation's slot */
+    | { type: 'join'; version: number; lobbyId: string; name: string; playerId?: number; reconnectToken?: string }
+    | { type: 'intent'; intent: Intent }
+    | { type: 'ping'; time: number };
+
+export type ServerMessage =
+    | { type: 'welcome'; playerId: number; reconnectToken: string; lobbyId: string; seed: number; world: WorldSettings; hexCount: number; players: PlayerInfo[]; snapshot: SimSnapshot }
+    | { type: 'lobby'; players: PlayerInfo[] }
+    | { type: 'tick'; tick: number; events: SimEvent[]; stats: PlayerStats[] }
+    /** `fatal` errors are followed by the server closing the connection; don't retry */
+    | { type: 'error'; message: string; fatal?: boolean }
+    | { type: 'pong'; time: number };
+
+const isInt = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v);
+
+function isIntent(v: any): v is Intent {
+    if (!v || typeof v !== 'object') return false;
+    if (v.kind === 'cancelExpansion') return isInt(v.expansionId);
+    if (v.kind === 'diplomacy') return isInt(v.targetId) && DIPLOMACY_ACTIONS.includes(v.action);
+    if (v.kind === 'focus') return typeof v.focus === 'number' && v.focus >= 0 && v.focus <= 1;
+    if (!isInt(v.hexIndex)) return false;
+    switch (v.kind) {
+        case 'expand':
+            if (v.speed !== undefined && typeof v.speed !== 'number') return false;
+            return typeof v.troops === 'number' && v.troops > 0;
+        case 'attack':
+        case 'boat':
+            return typeof v.troops === 'number' && v.troops > 0;
+        case 'warship':
+        case 'bridge':
+            return true;
+        case 'road':
+            return ROAD_TYPES.includes(v.road);
+        case 'build':
+            return v.building === 'capital' || BUILDING_TYPES.includes(v.building);
+        case 'launch':
+            return MISSILE_TYPES.includes(v.missile);
+        default:
+            return false;
+    }
+}
+
+/** Parses and validates a message from an untrusted client. Returns null if malformed. */
+export function parseClientMessage(raw: string): ClientMessage | null {
+    let msg: any;
+    try {
+        msg = JSON.parse(raw);
+    } catch {
+        return null;
+    }
+    if (!msg || typeof msg !== 'object') return null;
+    switch (msg.type) {
+        case 'join':
+            if (!isInt(msg.version) || typeof msg.lobbyId !== 'string' || typeof msg.name !== 'string') return null;
+            if (msg.playerId !== undefined && !isInt(msg.playerId)) return null;
+            if (msg.reconnectToken !== undefined && typeof msg.reconnectToken !== 'string') return null;
+            return msg;
+        case 'intent':
+            return isIntent(msg.intent) ? msg : null;
+        case 'ping':
+            return typeof msg.time === 'number' ? msg : null;
+        default:
+            return null;
+    }
+}
+
+export function parseServerMessage(raw: string): ServerMessage | null {
+    try {
+        const msg = JSON.parse(raw);
+        return msg && typeof msg.type === 'string' ? msg as ServerMessage : null;
+    } catch {
+        return null;
+    }
+}
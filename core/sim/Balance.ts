@@ -0,0 +1,144 @@
+// Every number the game rules are tuned by. Population.ts, Combat.ts,
+// Economy.ts and the other rule modules hold the formulas that read these;
+// per-type numbers (buildings, biomes, warheads, roads) stay in their catalogs.
+
+// Population
+
+/** Troops every nation starts with. */
+export const STARTING_TROOPS = 500;
+/** Troop cap every nation starts with, before territory and buildings. */
+export const BASE_TROOP_CAP = 1000;
+export const TROOP_CAP_PER_HEX = 10;
+/** Troops gained per second at half capacity, as a share of the cap. */
+export const PEAK_GROWTH_RATE = 0.015;
+/** Troops gained per second by a near-empty army, so a beaten nation can rebuild. */
+export const MIN_GROWTH = 5;
+
+/** Share of troops an order sends when the player hasn't chosen one. */
+export const DEFAULT_ATTACK_RATIO = 0.3;
+export const MIN_ATTACK_RATIO = 0.1;
+/** How far one ratio hotkey press moves the share. */
+export const ATTACK_RATIO_STEP = 0.1;
+
+// Combat
+
+/** Attacker troops lost per troop of defense overcome. */
+export const ATTACKER_LOSS_FACTOR = 1.0;
+/** Defender troops lost per troop of defense overcome. */
+export const DEFENDER_LOSS_FACTOR = 0.5;
+/** Minimum attacker cost of a hex, even against an empty nation. */
+export const MIN_CAPTURE_COST = 1;
+/** Seconds to take one hex on plain land with a small army. */
+export const BASE_CAPTURE_TIME = 0.5;
+/** Attack troops that add one more hex's worth of pushing speed. */
+export const CAPTURE_SPEED_TROOPS = 500;
+/** Fastest a big army can push, as a multiple of a small one. */
+export const MAX_CAPTURE_SPEEDUP = 4;
+/** City health per extra 1x of defense: a city at full health triples it. */
+export const CITY_HEALTH_PER_DEFENSE = 50;
+/** Defense multiplier for hexes a river runs through: troops dig in behind the banks. */
+export const RIVER_DEFENSE = 1.25;
+
+/** Health of a finished building or a new warship. */
+export const MAX_HEALTH = 100;
+/** Health a building loses when its hex is conquered. */
+export const CAPTURE_DAMAGE = 50;
+
+// Expansion
+
+/** Troops spent to settle one plain land hex. */
+export const EXPANSION_HEX_COST = 4;
+/** Hexes per second an expansion gains for each troop sent, when the order doesn't name a speed. */
+export const EXPANSION_SPEED_PER_TROOP = 0.02;
+export const MIN_EXPANSION_SPEED = 0.1;
+/** Upper bound on hexes settled per second by a single expansion. */
+export const MAX_EXPANSION_SPEED = 20;
+
+// Economy
+
+/** Cash every nation starts with. */
+export const STARTING_CASH = 250000;
+/** Where a new nation sets its balance between troop growth and cash. */
+export const DEFAULT_TROOP_FOCUS = 0.5;
+/** Extra cash per second from a river hex, on top of its biome. */
+export const RIVER_INCOME = 1;
+/** Troops a nation keeps without paying upkeep. */
+export const UPKEEP_FREE_TROOPS = 5000;
+/** Cash per second each troop beyond the free allowance costs. */
+export const UPKEEP_PER_TROOP = 0.03;
+
+/** Seconds a port waits between sending out trade ships. */
+export const TRADE_SHIP_INTERVAL = 20;
+/** Great-circle radians a trade ship covers per second. */
+export const TRADE_SHIP_SPEED = 0.04;
+/** Shortest voyage, even between neighboring ports. */
+export const MIN_VOYAGE_TIME = 5;
+/** Cash each side earns from a voyage, plus TRADE_GOLD_PER_RADIAN for the distance. */
+export const TRADE_GOLD_BASE = 200;
+export const TRADE_GOLD_PER_RADIAN = 1000;
+/** Seconds of arrivals averaged into the trade line of the income breakdown. */
+export const TRADE_WINDOW = 60;
+
+// Missiles
+
+/** Seconds a silo needs between launches. */
+export const SILO_RELOAD = 10;
+/** Seconds a SAM site needs between interceptions. */
+export const SAM_RELOAD = 8;
+/** Hex steps from a SAM site to the furthest target it protects. */
+export const SAM_RANGE = 6;
+/** Great-circle radians a missile covers per second. */
+export const MISSILE_SPEED = 0.25;
+/** Shortest flight, even for a target next to the silo. */
+export const MIN_FLIGHT_TIME = 3;
+/** Seconds an irradiated hex stays unclaimable. */
+export const FALLOUT_SECONDS = 60;
+/** Share of the flight after which SAMs get their shot. */
+export const INTERCEPT_PHASE = 0.75;
+
+// Naval
+
+/** Hexes per second a transport boat sails. */
+export const BOAT_SPEED = 3;
+/** Transport boats a nation can have at sea at once. */
+export const MAX_BOATS = 3;
+/** Owned shore hexes tried as the launch point, nearest to the target first. */
+export const BOAT_LAUNCH_CANDIDATES = 3;
+
+export const WARSHIP_COST = 60000;
+/** Warships each port can keep at sea. */
+export const WARSHIPS_PER_PORT = 2;
+/** Hexes per second a warship sails. */
+export const WARSHIP_SPEED = 2;
+/** Hex steps over water from its home port that a warship patrols. */
+export const WARSHIP_PATROL_RADIUS = 8;
+/** Great-circle radians within which a warship opens fire. */
+export const WARSHIP_RANGE = 0.06;
+/** Seconds a warship needs between shots. */
+export const WARSHIP_RELOAD = 3;
+/** Health a hit takes off another warship; boats and trade ships sink in one hit. */
+export const WARSHIP_DAMAGE = 34;
+
+// Infrastructure
+
+/** Longest run of water hexes a bridge can span. */
+export const MAX_BRIDGE_SPAN = 3;
+export const BRIDGE_COST = 50000;
+/** Seconds from ordering a bridge until it can be crossed. */
+export const BRIDGE_BUILD_TIME = 8;
+/** Longest road or railroad, in hexes. */
+export const MAX_ROAD_LENGTH = 40;
+
+// Diplomacy
+
+/** Seconds an unanswered alliance request stays open. */
+export const ALLIANCE_REQUEST_SECONDS = 30;
+/** Seconds a nation that broke an alliance is marked as a traitor. */
+export const TRAITOR_SECONDS = 120;
+
+// Match score
+
+/** Score per owned hex, per finished building and per hundred troops, for the time limit. */
+export const SCORE_PER_HEX = 1;
+export const SCORE_PER_BUILDING = 25;
+export const SCORE_PER_HUNDRED_TROOPS = 1;
@@ -0,0 +1,38 @@
+import type { Biome } from './types';
+
+// Biome catalog: what every kind of terrain looks like and how it plays.
+// Combat, expansion and income all read their terrain numbers from here.
+
+export interface BiomeSpec {
+    name: string;
+    color: number;
+    /** Impassable: can't be claimed, settled or built on */
+    water: boolean;
+    /** Multiplies the troops needed to take the hex */
+    defense: number;
+    /** Multiplies how long it takes to capture or settle the hex */
+    attackTime: number;
+    /** Multiplies the troops spent settling the hex */
+    expansionCost: number;
+    /** Cash per second the hex earns its owner */
+    income: number;
+}
+
+export const BIOMES: Record<Biome, BiomeSpec> = {
+    ocean: { name: 'Ocean', color: 0x1e40af, water: true, defense: 1, attackTime: 1, expansionCost: 1, income: 0 },
+    lake: { name: 'Lake', color: 0x3b82f6, water: true, defense: 1, attackTime: 1, expansionCost: 1, income: 0 },
+    coast: { name: 'Coast', color: 0x60a5fa, water: false, defense: 1, attackTime: 1, expansionCost: 1, income: 1.5 },
+    grassland: { name: 'Grassland', color: 0x4ade80, water: false, defense: 1, attackTime: 1, expansionCost: 1, income: 1 },
+    forest: { name: 'Forest', color: 0x15803d, water: false, defense: 1.4, attackTime: 1.3, expansionCost: 1.3, income: 0.8 },
+    jungle: { name: 'Jungle', color: 0x166534, water: false, defense: 1.6, attackTime: 1.7, expansionCost: 1.6, income: 0.6 },
+    swamp: { name: 'Swamp', color: 0x4d7c0f, water: false, defense: 1.2, attackTime: 2, expansionCost: 1.5, income: 0.3 },
+    desert: { name: 'Desert', color: 0xfbbf24, water: false, defense: 0.9, attackTime: 1.6, expansionCost: 0.9, income: 0.2 },
+    tundra: { name: 'Tundra', color: 0xa8a29e, water: false, defense: 1.1, attackTime: 1.3, expansionCost: 1.2, income: 0.3 },
+    snow: { name: 'Snow', color: 0xe5e7eb, water: false, defense: 1.3, attackTime: 1.4, expansionCost: 1.3, income: 0 },
+    mountain: { name: 'Mountain', color: 0x6b7280, water: false, defense: 2.2, attackTime: 1.8, expansionCost: 2.2, income: 0.4 },
+};
+
+export const BIOME_TYPES = Object.keys(BIOMES) as Biome[];
+
+export const LAND_BIOMES = BIOME_TYPES.filter(b => !BIOMES[b].water);
+
@@ -0,0 +1,185 @@
+import { Random } from './Random';
+import { NO_OWNER } from './Player';
+import { SimController, Simulation } from './Simulation';
+import { BUILDINGS } from './Buildings';
+import type { Biome } from './types';
+
+// AI nations. A bot only issues orders through the same actions a human
+// player has, and draws all randomness from its own seeded Random, so a match
+// with bots replays identically from its seed.
+
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface BotProfile {
+    /** Ticks between decisions */
+    thinkInterval: number;
+    /** Share of troops sent into each expansion */
+    expandFraction: number;
+    /** Attack a neighbor once our troops exceed theirs by this factor */
+    attackRatio: number;
+    /** Share of troops committed to each attack */
+    attackFraction: number;
+    /** Cash kept in reserve before buying cities */
+    cashReserve: number;
+    /** Chance of accepting an alliance request from a nation with a clean record */
+    allianceChance: number;
+}
+
+export const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+    easy: { thinkInterval: 20, expandFraction: 0.2, attackRatio: 3.0, attackFraction: 0.2, cashReserve: 150000, allianceChance: 0.8 },
+    medium: { thinkInterval: 10, expandFraction: 0.3, attackRatio: 2.0, attackFraction: 0.3, cashReserve: 75000, allianceChance: 0.5 },
+    hard: { thinkInterval: 5, expandFraction: 0.4, attackRatio: 1.4, attackFraction: 0.4, cashReserve: 0, allianceChance: 0.3 },
+};
+
+/** Bots need this much less of an edge to attack a nation marked as a traitor. */
+const TRAITOR_ATTACK_DISCOUNT = 0.7;
+
+const BOT_NAMES = ['Avalon', 'Borealis', 'Cascadia', 'Dravia', 'Elmont', 'Frostmark', 'Galdor', 'Hesperia', 'Istria', 'Jorvik', 'Kestrel', 'Lumera'];
+
+/** What a save file keeps of a bot so it resumes making the same decisions. */
+export interface BotSave {
+    playerId: number;
+    difficulty: BotDifficulty;
+    rngState: number;
+}
+
+export class Bot implements SimController {
+    playerId: number;
+    difficulty: BotDifficulty;
+    profile: BotProfile;
+    private rng: Random;
+
+    constructor(playerId: number, difficulty: BotDifficulty, seed: number) {
+        this.playerId = playerId;
+        this.difficulty = difficulty;
+        this.profile = BOT_PROFILES[difficulty];
+        this.rng = new Random(seed);
+    }
+
+    toSave(): BotSave {
+        return { playerId: this.playerId, difficulty: this.difficulty, rngState: this.rng.getState() };
+    }
+
+    static fromSave(save: BotSave): Bot {
+        const bot = new Bot(save.playerId, save.difficulty, 0);
+        bot.rng.setState(save.rngState);
+        return bot;
+    }
+
+    update(sim: Simulation) {
+        // Stagger bots so they don't all think on the same tick
+        if ((sim.tick + this.playerId) % this.profile.thinkInterval !== 0) return;
+        const me = sim.getPlayer(this.playerId);
+        if (!me) return;
+
+        if (!me.capitalPlaced) {
+            const spawn = pickSpawn(sim, this.rng);
+            if (spawn !== -1) sim.placeCapital(this.playerId, spawn);
+            return;
+        }
+
+        this.answerRequests(sim);
+        const { unclaimed, enemy } = this.scanFrontier(sim);
+
+        if (!this.tryAttack(sim, enemy)) {
+            const expanding = sim.expansions.some(e => e.playerId === this.playerId);
+            if (!expanding && unclaimed.length > 0) {
+                const troops = Math.floor(me.troops * this.profile.expandFraction);
+                sim.startExpansion(this.playerId, this.rng.pick(unclaimed), troops);
+            }
+        }
+
+        this.tryBuildCity(sim);
+    }
+
+    /** Traitors are always turned down; anyone else is accepted by chance. */
+    private answerRequests(sim: Simulation) {
+        for (const r of sim.diplomacy.requests.filter(r => r.toId === this.playerId)) {
+            const trusted = !sim.diplomacy.isTraitor(r.fromId, sim.tick) && this.rng.next() < this.profile.allianceChance;
+            sim.diplomaticAction(this.playerId, r.fromId, trusted ? 'accept' : 'reject');
+        }
+    }
+
+    /** Collects the hexes just outside our border, split into unclaimed land and enemy land. */
+    private scanFrontier(sim: Simulation): { unclaimed: number[]; enemy: number[] } {
+        const unclaimed = new Set<number>();
+        const enemy = new Set<number>();
+        const owner = sim.centerOwner;
+        for (let i = 0; i < owner.length; i++) {
+            if (owner[i] !== this.playerId) continue;
+            for (const n of sim.map.centerNeighbors[i]) {
+                if (sim.map.centerWater[n]) continue;
+                if (owner[n] === NO_OWNER) unclaimed.add(n);
+                else if (owner[n] !== this.playerId) enemy.add(n);
+            }
+        }
+        // Sets keep insertion order, which follows hex index, so this stays deterministic
+        return { unclaimed: Array.from(unclaimed), enemy: Array.from(enemy) };
+    }
+
+    private tryAttack(sim: Simulation, enemyHexes: number[]): boolean {
+        const me = sim.getPlayer(this.playerId)!;
+        if (sim.attacks.some(a => a.attackerId === this.playerId)) return true; // Let the running attack play out
+        let bestHex = -1;
+        let bestRatio = this.profile.attackRatio;
+        for (const hex of enemyHexes) {
+            const target = sim.ownerOf(hex);
+            if (!target || sim.diplomacy.isAllied(this.playerId, target.id)) continue;
+            let ratio = me.troops / Math.max(1, target.troops);
+            if (sim.diplomacy.isTraitor(target.id, sim.tick)) ratio /= TRAITOR_ATTACK_DISCOUNT;
+            if (ratio > bestRatio) {
+                bestRatio = ratio;
+                bestHex = hex;
+            }
+        }
+        if (bestHex === -1) return false;
+        return sim.attack(this.playerId, bestHex, Math.floor(me.troops * this.profile.attackFraction));
+    }
+
+    private tryBuildCity(sim: Simulation) {
+        const me = sim.getPlayer(this.playerId)!;
+        if (me.cash < BUILDINGS.city.cost + this.profile.cashReserve) return;
+        const candidates: number[] = [];
+        sim.centerOwner.forEach((o, i) => {
+            if (o === this.playerId && sim.canBuild(this.playerId, i, 'city') === null) candidates.push(i);
+        });
+        if (candidates.length > 0) sim.build(this.playerId, this.rng.pick(candidates), 'city');
+    }
+}
+
+/** Biomes a nation can be founded on: somewhere a capital can grow. */
+const SPAWN_BIOMES: Biome[] = ['grassland', 'forest', 'jungle', 'desert'];
+
+/** A random unclaimed land hex whose neighbors are also unclaimed, or -1. */
+export function pickSpawn(sim: Simulation, rng: Random): number {
+    const { biomes, centerNeighbors } = sim.map;
+    for (let attempt = 0; attempt < 1000; attempt++) {
+        const idx = rng.int(0, sim.hexCount);
+        if (!SPAWN_BIOMES.includes(biomes[idx])) continue;
+        if (sim.centerOwner[idx] !== NO_OWNER) continue;
+        if (centerNeighbors[idx].some(n => sim.centerOwner[n] !== NO_OWNER)) continue;
+        return idx;
+    }
+    return -1;
+}
+
+/** Adds `count` AI nations to the match and registers their controllers. */
+export function addBots(sim: Simulation, count: number, difficulty: BotDifficulty): Bot[] {
+    const bots: Bot[] = [];
+    for (let i = 0; i < count; i++) {
+        const player = sim.addPlayer(BOT_NAMES[i % BOT_NAMES.length]);
+        const bot = new Bot(player.id, difficulty, (sim.seed + player.id * 0x9e3779b1) >>> 0);
+        sim.addController(bot);
+        bots.push(bot);
+    }
+    return bots;
+}
+
+/** Re-registers saved bots for players that already exist in the simulation. */
+export function restoreBots(sim: Simulation, saves: BotSave[]): Bot[] {
+    return saves.map(save => {
+        const bot = Bot.fromSave(save);
+        sim.addController(bot);
+        return bot;
+    });
+}
@@ -0,0 +1,83 @@
+import { LAND_BIOMES } from './Biomes';
+import type { Biome } from './types';
+
+// Building catalog. Every rule about what can be built where, what it costs
+// and what it does comes from this table; Simulation and the radial menu both
+// read it, so adding a building type is a one-entry change here plus a mesh.
+
+export type BuildingType = 'city' | 'port' | 'factory' | 'defensePost' | 'missileSilo' | 'sam';
+
+export interface BuildingSpec {
+    type: BuildingType;
+    name: string;
+    icon: string;
+    cost: number;
+    /** Seconds from placement until the building takes effect */
+    buildTime: number;
+    /** Biomes the building can stand on */
+    biomes: Biome[];
+    /** Added to the owner's maximum troops */
+    troopCap: number;
+    /** Added to the owner's troop growth per second */
+    troopGrowth: number;
+    /** Cash per second */
+    income: number;
+    /** Defense multiplier for hexes within `defenseRadius` */
+    defense: number;
+    defenseRadius: number;
+}
+
+const SETTLED: Biome[] = ['grassland', 'forest', 'jungle', 'desert', 'tundra'];
+
+export const BUILDINGS: Record<BuildingType, BuildingSpec> = {
+    city: {
+        type: 'city', name: 'City', icon: '🏙️', cost: 50000, buildTime: 5,
+        biomes: [...SETTLED, 'coast'],
+        troopCap: 2500, troopGrowth: 10, income: 100, defense: 1, defenseRadius: 0,
+    },
+    port: {
+        type: 'port', name: 'Port', icon: '⚓', cost: 40000, buildTime: 6,
+        biomes: ['coast'],
+        troopCap: 0, troopGrowth: 0, income: 150, defense: 1, defenseRadius: 0,
+    },
+    factory: {
+        type: 'factory', name: 'Factory', icon: '🏭', cost: 75000, buildTime: 8,
+        biomes: ['grassland', 'forest', 'desert', 'tundra'],
+        troopCap: 0, troopGrowth: 0, income: 400, defense: 1, defenseRadius: 0,
+    },
+    defensePost: {
+        type: 'defensePost', name: 'Defense Post', icon: '🛡️', cost: 25000, buildTime: 4,
+        biomes: LAND_BIOMES,
+        troopCap: 0, troopGrowth: 0, income: 0, defense: 2, defenseRadius: 2,
+    },
+    missileSilo: {
+        type: 'missileSilo', name: 'Missile Silo', icon: '🚀', cost: 100000, buildTime: 10,
+        biomes: [...SETTLED, 'swamp', 'mountain', 'snow'],
+        troopCap: 0, troopGrowth: 0, income: 0, defense: 1, defenseRadius: 0,
+    },
+    sam: {
+        type: 'sam', name: 'SAM Site', icon: '📡', cost: 60000, buildTime: 6,
+        biomes: LAND_BIOMES,
+        troopCap: 0, troopGrowth: 0, income: 0, defense: 1, defenseRadius: 0,
+    },
+};
+
+export const BUILDING_TYPES = Object.keys(BUILDINGS) as BuildingType[];
+
+export interface Building {
+    id: number;
+    type: BuildingType;
+    hexIndex: number;
+    ownerId: number;
+    name: string;
+    health: number;
+    isCapital: boolean;
+    /** Seconds of construction left; 0 once operational */
+    constructionLeft: number;
+    /** Seconds until a silo or SAM site can fire again, or a port sends its next ship */
+    cooldown: number;
+}
+
+export function isOperational(b: Building): boolean {
+    return b.constructionLeft <= 0;
+}
@@ -0,0 +1,41 @@
+import { BASE_CAPTURE_TIME, CAPTURE_SPEED_TROOPS, CITY_HEALTH_PER_DEFENSE, MAX_CAPTURE_SPEEDUP, RIVER_DEFENSE } from './Balance';
+import { BIOMES } from './Biomes';
+import type { Biome } from './types';
+
+// Troop combat. Simulation runs the attacks; this file answers "how hard is
+// this hex to take and how long does it hold out". Terrain multipliers come
+// from the biome catalog in Biomes.ts.
+
+export interface AttackInProgress {
+    id: number;
+    attackerId: number;
+    defenderId: number;
+    /** Troops still committed to the attack */
+    troops: number;
+    /** Defender hexes on the current front line, in capture order */
+    frontier: number[];
+    /** Capture time banked so far, in seconds */
+    timer: number;
+}
+
+/** City defense scales with how intact the city is: full health triples defense. */
+export function cityDefenseBonus(health: number): number {
+    return 1 + Math.max(0, health) / CITY_HEALTH_PER_DEFENSE;
+}
+
+/**
+ * Troops it takes to overcome a hex: the defender's troop density spread over
+ * their territory, scaled by terrain, a river, any city on it and nearby
+ * defense posts.
+ */
+export function hexDefense(defenderTroops: number, defenderTerritory: number, biome: Biome, cityHealth: number | null, fortification: number = 1, river: boolean = false): number {
+    const density = defenderTroops / Math.max(1, defenderTerritory);
+    const city = cityHealth === null ? 1 : cityDefenseBonus(cityHealth);
+    return density * BIOMES[biome].defense * (river ? RIVER_DEFENSE : 1) * city * fortification;
+}
+
+/** Seconds of pressure needed to take a hex. Bigger armies push faster, up to MAX_CAPTURE_SPEEDUP. */
+export function captureTime(attackTroops: number, biome: Biome): number {
+    const speed = Math.min(MAX_CAPTURE_SPEEDUP, 1 + attackTroops / CAPTURE_SPEED_TROOPS);
+    return BASE_CAPTURE_TIME * BIOMES[biome].attackTime / speed;
+}
@@ -0,0 +1,113 @@
+// Relations between nations. Diplomacy only holds the state and answers
+// questions about it; Simulation validates the orders, applies them here and
+// emits the events. There is no fog of war: every border is visible to every
+// nation, so allies share vision already, and World draws allied borders in
+// their own color.
+
+export type DiplomacyAction = 'request' | 'accept' | 'reject' | 'break' | 'embargo' | 'liftEmbargo';
+
+export const DIPLOMACY_ACTIONS: DiplomacyAction[] = ['request', 'accept', 'reject', 'break', 'embargo', 'liftEmbargo'];
+
+export interface AllianceRequest {
+    fromId: number;
+    toId: number;
+    /** Tick after which the request lapses */
+    expiresTick: number;
+}
+
+/** Serializable form, carried in SimSnapshot. */
+export interface DiplomacyState {
+    /** [a, b] pairs with a < b */
+    alliances: [number, number][];
+    requests: AllianceRequest[];
+    /** [fromId, toId]: fromId refuses to trade with toId */
+    embargoes: [number, number][];
+    /** [playerId, tick the mark expires] */
+    traitors: [number, number][];
+}
+
+const pairKey = (a: number, b: number) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+export class Diplomacy {
+    private alliances = new Map<string, [number, number]>();
+    private embargoes = new Map<string, [number, number]>();
+    requests: AllianceRequest[] = [];
+    traitorUntil = new Map<number, number>();
+
+    isAllied(a: number, b: number): boolean {
+        return this.alliances.has(pairKey(a, b));
+    }
+
+    alliesOf(playerId: number): number[] {
+        const allies: number[] = [];
+        this.alliances.forEach(([a, b]) => {
+            if (a === playerId) allies.push(b);
+            else if (b === playerId) allies.push(a);
+        });
+        return allies;
+    }
+
+    hasEmbargo(fromId: number, toId: number): boolean {
+        return this.embargoes.has(`${fromId}>${toId}`);
+    }
+
+    /** Trade between two nations stops if either one embargoes the other. */
+    canTrade(a: number, b: number): boolean {
+        return a !== b && !this.hasEmbargo(a, b) && !this.hasEmbargo(b, a);
+    }
+
+    isTraitor(playerId: number, tick: number): boolean {
+        return (this.traitorUntil.get(playerId) ?? -1) > tick;
+    }
+
+    findRequest(fromId: number, toId: number): AllianceRequest | undefined {
+        return this.requests.find(r => r.fromId === fromId && r.toId === toId);
+    }
+
+    addRequest(request: AllianceRequest) {
+        this.requests.push(request);
+    }
+
+    removeRequest(fromId: number, toId: number) {
+        this.requests = this.requests.filter(r => !(r.fromId === fromId && r.toId === toId));
+    }
+
+    /** Drops requests past their expiry tick and returns them. */
+    expireRequests(tick: number): AllianceRequest[] {
+        const expired = this.requests.filter(r => r.expiresTick <= tick);
+        if (expired.length > 0) this.requests = this.requests.filter(r => r.expiresTick > tick);
+        return expired;
+    }
+
+    setAllied(a: number, b: number, allied: boolean) {
+        if (allied) this.alliances.set(pairKey(a, b), a < b ? [a, b] : [b, a]);
+        else this.alliances.delete(pairKey(a, b));
+    }
+
+    setEmbargo(fromId: number, toId: number, active: boolean) {
+        if (active) this.embargoes.set(`${fromId}>${toId}`, [fromId, toId]);
+        else this.embargoes.delete(`${fromId}>${toId}`);
+    }
+
+    markTraitor(playerId: number, untilTick: number) {
+        this.traitorUntil.set(playerId, untilTick);
+    }
+
+    getState(): DiplomacyState {
+        return {
+            alliances: Array.from(this.alliances.values()),
+            requests: this.requests.map(r => ({ ...r })),
+            embargoes: Array.from(this.embargoes.values()),
+            traitors: Array.from(this.traitorUntil.entries()),
+        };
+    }
+
+    setState(state: DiplomacyState) {
+        this.alliances.clear();
+        state.alliances.forEach(([a, b]) => this.setAllied(a, b, true));
+        this.embargoes.clear();
+        state.embargoes.forEach(([from, to]) => this.setEmbargo(from, to, true));
+        this.requests = state.requests.map(r => ({ ...r }));
+        this.traitorUntil = new Map(state.traitors);
+    }
+}
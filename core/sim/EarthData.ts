@@ -0,0 +1,77 @@
+// The bundled Earth raster behind the 'earth' map preset: land height,
+// ground cover and country per 1° cell (layout in public/earth/SOURCES.md).
+// Loading the files is left to the caller, fetch in the browser and the file
+// system on the server, so this module stays free of I/O.
+
+export const EARTH_DATA_URL = '/earth/earth.bin';
+export const EARTH_REGIONS_URL = '/earth/regions.json';
+
+export type EarthCover = 'none' | 'desert' | 'ice';
+
+const COVERS: EarthCover[] = ['none', 'desert', 'ice'];
+
+export interface EarthData {
+    width: number;
+    height: number;
+    /** 0 for water, 1..255 for land */
+    land: Uint8Array;
+    cover: Uint8Array;
+    /** 0 for none, otherwise 1 + index into regionNames */
+    region: Uint8Array;
+    regionNames: string[];
+}
+
+export interface EarthSample {
+    water: boolean;
+    /** Land height in 0..1; 0 for water */
+    height: number;
+    cover: EarthCover;
+    /** Index into regionNames, or -1 at sea and on unclaimed land */
+    region: number;
+}
+
+/** Reads earth.bin and regions.json; returns null if they don't fit together. */
+export function parseEarthData(buffer: ArrayBuffer, regionNames: unknown): EarthData | null {
+    if (buffer.byteLength < 4 || !Array.isArray(regionNames) || !regionNames.every(n => typeof n === 'string')) return null;
+    const view = new DataView(buffer);
+    const width = view.getUint16(0, true);
+    const height = view.getUint16(2, true);
+    const size = width * height;
+    if (size === 0 || buffer.byteLength !== 4 + size * 3) return null;
+    return {
+        width,
+        height,
+        land: new Uint8Array(buffer, 4, size),
+        cover: new Uint8Array(buffer, 4 + size, size),
+        region: new Uint8Array(buffer, 4 + size * 2, size),
+        regionNames,
+    };
+}
+
+/** Raster cell index containing a point, wrapping longitude and clamping latitude. */
+export function earthCell(data: EarthData, lat: number, lng: number): number {
+    const x = Math.floor(((((lng + 180) % 360) + 360) % 360) / 360 * data.width) % data.width;
+    const y = Math.min(data.height - 1, Math.max(0, Math.floor((90 - lat) / 180 * data.height)));
+    return y * data.width + x;
+}
+
+export function sampleEarth(data: EarthData, lat: number, lng: number): EarthSample {
+    const i = earthCell(data, lat, lng);
+    return {
+        water: data.land[i] === 0,
+        height: data.land[i] / 255,
+        cover: COVERS[data.cover[i]] ?? 'none',
+        region: data.region[i] - 1,
+    };
+}
+
+/** True if any raster cell within `reach` cells of the point is water. */
+export function nearEarthWater(data: EarthData, lat: number, lng: number, reach: number = 1): boolean {
+    const step = 180 / data.height;
+    for (let dy = -reach; dy <= reach; dy++) {
+        for (let dx = -reach; dx <= reach; dx++) {
+            if (data.land[earthCell(data, lat + dy * step, lng + dx * step)] === 0) return true;
+        }
+    }
+    return false;
+}
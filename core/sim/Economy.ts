@@ -0,0 +1,52 @@
+import { UPKEEP_FREE_TROOPS, UPKEEP_PER_TROOP, TRADE_SHIP_SPEED, MIN_VOYAGE_TIME, TRADE_GOLD_BASE, TRADE_GOLD_PER_RADIAN } from './Balance';
+
+// Income, upkeep and trade. Simulation pays out once a second and sails the
+// trade ships; these helpers work out what land, armies and cargo are worth.
+
+export interface TradeShip {
+    id: number;
+    ownerId: number;
+    partnerId: number;
+    fromPortId: number;
+    toPortId: number;
+    fromHexIndex: number;
+    toHexIndex: number;
+    /** Cash paid to both nations on arrival */
+    cargo: number;
+    /** Total voyage time in seconds */
+    voyageTime: number;
+    launchTick: number;
+}
+
+/** Cash per second a nation earns and spends, as shown in the HUD. */
+export interface IncomeBreakdown {
+    terrain: number;
+    buildings: number;
+    roads: number;
+    /** Average over the last TRADE_WINDOW seconds; paid when ships arrive */
+    trade: number;
+    upkeep: number;
+    total: number;
+}
+
+/**
+ * Troop growth and cash multipliers for a focus between 0 (all cash) and 1
+ * (all troops). The default focus leaves both unchanged.
+ */
+export function focusMultipliers(focus: number): { troops: number; cash: number } {
+    return { troops: 0.5 + focus, cash: 1.5 - focus };
+}
+
+/** Cash per second an army of `troops` costs to keep. */
+export function armyUpkeep(troops: number): number {
+    return Math.max(0, troops - UPKEEP_FREE_TROOPS) * UPKEEP_PER_TROOP;
+}
+
+export function voyageTime(angle: number): number {
+    return MIN_VOYAGE_TIME + angle / TRADE_SHIP_SPEED;
+}
+
+/** Longer routes carry more: distant trade pays better than trade with a neighbor. */
+export function cargoValue(angle: number): number {
+    return Math.round(TRADE_GOLD_BASE + angle * TRADE_GOLD_PER_RADIAN);
+}
@@ -0,0 +1,33 @@
+import { EXPANSION_HEX_COST, EXPANSION_SPEED_PER_TROOP } from './Balance';
+import { BIOMES } from './Biomes';
+import type { Biome } from './types';
+
+// Settling unclaimed land: what each hex costs and how fast a front moves.
+
+export interface ExpansionInProgress {
+    id: number;
+    playerId: number;
+    /** Troops not yet spent on settling hexes */
+    troops: number;
+    /** Hexes per second */
+    speed: number;
+    /** Unclaimed hexes waiting to be settled, nearest to the target first */
+    frontier: number[];
+    /** Settling time banked so far, in hexes */
+    timer: number;
+}
+
+/** Default speed when an order doesn't name one: bigger expansions move faster. */
+export function defaultExpansionSpeed(troops: number): number {
+    return Math.max(1, troops * EXPANSION_SPEED_PER_TROOP);
+}
+
+/** Troops spent to settle a hex; rough terrain costs more. */
+export function expansionCost(biome: Biome): number {
+    return EXPANSION_HEX_COST * BIOMES[biome].expansionCost;
+}
+
+/** Time to settle a hex, in units of 1 / speed. */
+export function expansionTime(biome: Biome): number {
+    return BIOMES[biome].attackTime;
+}
@@ -0,0 +1,44 @@
+// Bridges, roads and railroads. A bridge spans a short strait and joins the
+// land on either side, so expansions and attacks can cross it; roads and
+// railroads link two cities of a nation, speed up its fronts along them and
+// earn cash. Simulation places and destroys them; the road catalog here says
+// what each kind costs and does.
+
+export type RoadType = 'road' | 'railroad';
+
+export interface RoadSpec {
+    type: RoadType;
+    name: string;
+    icon: string;
+    cost: number;
+    buildTime: number;
+    /** Multiplier on how fast expansions and attacks advance next to it */
+    speedBonus: number;
+    /** Cash per second */
+    income: number;
+}
+
+export const ROADS: Record<RoadType, RoadSpec> = {
+    road: { type: 'road', name: 'Road', icon: '🛣️', cost: 20000, buildTime: 5, speedBonus: 1.5, income: 40 },
+    railroad: { type: 'railroad', name: 'Railroad', icon: '🚆', cost: 60000, buildTime: 10, speedBonus: 2.5, income: 120 },
+};
+
+export const ROAD_TYPES = Object.keys(ROADS) as RoadType[];
+
+export interface Bridge {
+    id: number;
+    ownerId: number;
+    /** Land hex on the builder's side, the water hexes spanned, then the far shore */
+    path: number[];
+    /** Seconds of construction left; 0 once it can be crossed */
+    constructionLeft: number;
+}
+
+export interface Road {
+    id: number;
+    type: RoadType;
+    ownerId: number;
+    /** From one city hex to the other, over the owner's land */
+    path: number[];
+    constructionLeft: number;
+}
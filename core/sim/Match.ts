@@ -0,0 +1,84 @@
+import { STARTING_TROOPS, STARTING_CASH, SCORE_PER_HEX, SCORE_PER_BUILDING, SCORE_PER_HUNDRED_TROOPS } from './Balance';
+
+// Rules a match is played by: what nations start with, whether nukes are
+// allowed, teams, and how the match is won. Simulation checks the win
+// conditions once a second; the last nation (or team) standing always wins,
+// holding enough of the land or the best score when time runs out can end it
+// sooner.
+
+export interface MatchSettings {
+    startingCash: number;
+    startingTroops: number;
+    /** Whether atom and hydrogen bombs can be launched */
+    nukes: boolean;
+    /** Number of teams, or 0 for everyone against everyone */
+    teams: number;
+    /** Share of all land hexes a nation or team has to hold to win, 0..1 */
+    dominationShare: number;
+    /** Minutes after which the best score wins, or 0 for no limit */
+    timeLimit: number;
+}
+
+export const MAX_TEAMS = 4;
+export const MIN_DOMINATION_SHARE = 0.3;
+
+export const DEFAULT_MATCH_SETTINGS: MatchSettings = {
+    startingCash: STARTING_CASH,
+    startingTroops: STARTING_TROOPS,
+    nukes: true,
+    teams: 0,
+    dominationShare: 0.8,
+    timeLimit: 0,
+};
+
+export type VictoryReason = 'domination' | 'lastStanding' | 'timeLimit';
+
+/** How one nation finished, for the end screen. */
+export interface MatchStanding {
+    id: number;
+    name: string;
+    color: number;
+    team: number;
+    territory: number;
+    buildings: number;
+    troops: number;
+    score: number;
+}
+
+export interface MatchOutcome {
+    reason: VictoryReason;
+    /** Ids of the winning nation, or of every nation on the winning team */
+    winners: number[];
+    tick: number;
+    /** Every nation that placed a capital, best score first */
+    standings: MatchStanding[];
+}
+
+/** Clamps settings from an untrusted source (menu input, save file, environment) into range. */
+export function sanitizeMatchSettings(s: Partial<MatchSettings> | undefined): MatchSettings {
+    const num = (v: unknown, fallback: number) => (typeof v === 'number' && Number.isFinite(v) ? v : fallback);
+    const d = DEFAULT_MATCH_SETTINGS;
+    // A single team is no teams at all
+    const teams = Math.min(MAX_TEAMS, Math.max(0, Math.round(num(s?.teams, d.teams))));
+    return {
+        startingCash: Math.max(0, Math.round(num(s?.startingCash, d.startingCash))),
+        startingTroops: Math.max(1, Math.round(num(s?.startingTroops, d.startingTroops))),
+        nukes: typeof s?.nukes === 'boolean' ? s.nukes : d.nukes,
+        teams: teams < 2 ? 0 : teams,
+        dominationShare: Math.min(1, Math.max(MIN_DOMINATION_SHARE, num(s?.dominationShare, d.dominationShare))),
+        timeLimit: Math.max(0, Math.round(num(s?.timeLimit, d.timeLimit))),
+    };
+}
+
+/**
+ * The team a nation plays on. Teams are dealt out in join order, so nations
+ * 0, 2, 4… and 1, 3, 5… play together in a two-team match. Without teams
+ * every nation is its own side.
+ */
+export function teamOf(settings: MatchSettings, playerId: number): number {
+    return settings.teams > 1 ? playerId % settings.teams : playerId;
+}
+
+export function matchScore(territory: number, buildings: number, troops: number): number {
+    return territory * SCORE_PER_HEX + buildings * SCORE_PER_BUILDING + Math.floor(troops / 100) * SCORE_PER_HUNDRED_TROOPS;
+}
@@ -0,0 +1,66 @@
+import { MISSILE_SPEED, MIN_FLIGHT_TIME } from './Balance';
+
+// Missile strikes. Simulation flies the missiles and applies the blast; the
+// warhead catalog here says what each one costs and does.
+
+export type MissileType = 'missile' | 'atomBomb' | 'hydrogenBomb';
+
+export interface MissileSpec {
+    type: MissileType;
+    name: string;
+    icon: string;
+    cost: number;
+    /** Blast radius in hex steps over centerNeighbors */
+    blastRadius: number;
+    /** Share of a nation's troops lost per share of its territory inside the blast */
+    troopKill: number;
+    /** Nuclear blasts leave hexes unowned and unclaimable for FALLOUT_SECONDS */
+    irradiates: boolean;
+    /** Chance that a SAM covering the target shoots it down */
+    interceptChance: number;
+}
+
+export const MISSILES: Record<MissileType, MissileSpec> = {
+    missile: {
+        type: 'missile', name: 'Missile', icon: '🎯', cost: 20000,
+        blastRadius: 1, troopKill: 2, irradiates: false, interceptChance: 0.8,
+    },
+    atomBomb: {
+        type: 'atomBomb', name: 'Atom Bomb', icon: '☢️', cost: 150000,
+        blastRadius: 3, troopKill: 4, irradiates: true, interceptChance: 0.6,
+    },
+    hydrogenBomb: {
+        type: 'hydrogenBomb', name: 'Hydrogen Bomb', icon: '💥', cost: 500000,
+        blastRadius: 6, troopKill: 6, irradiates: true, interceptChance: 0.4,
+    },
+};
+
+export const MISSILE_TYPES = Object.keys(MISSILES) as MissileType[];
+
+export interface MissileInFlight {
+    id: number;
+    type: MissileType;
+    ownerId: number;
+    siloHexIndex: number;
+    targetHexIndex: number;
+    /** Owner of the target hex at launch, for incoming-missile alerts */
+    targetOwnerId: number;
+    /** Total flight time in seconds */
+    flightTime: number;
+    launchTick: number;
+    /** Whether SAMs have already had their shot at it */
+    interceptChecked: boolean;
+}
+
+/** Great-circle angle between two lat/lng points, in radians. */
+export function arcAngle(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const toRad = Math.PI / 180;
+    const dLat = (lat2 - lat1) * toRad;
+    const dLng = (lng2 - lng1) * toRad;
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * toRad) * Math.cos(lat2 * toRad) * Math.sin(dLng / 2) ** 2;
+    return 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export function flightTime(angle: number): number {
+    return MIN_FLIGHT_TIME + angle / MISSILE_SPEED;
+}
@@ -0,0 +1,88 @@
+import { arcAngle } from './Missiles';
+import { findPath } from './Pathfinding';
+import type { WorldData } from './types';
+
+// Boats, warships and the sea route search they share. Simulation moves the
+// vessels and resolves landings and sea fights; these helpers place a vessel
+// along its route and find where it can sail.
+
+export interface TransportBoat {
+    id: number;
+    ownerId: number;
+    troops: number;
+    /** Launch shore hex, the water hexes crossed, then the landing hex */
+    path: number[];
+    launchTick: number;
+}
+
+export interface Warship {
+    id: number;
+    ownerId: number;
+    /** Hex of the port it was built at; it patrols the water around it */
+    homeHexIndex: number;
+    health: number;
+    /** Seconds until it can fire again */
+    cooldown: number;
+    /** Current patrol leg, from where it stood to where it is heading */
+    path: number[];
+    legStartTick: number;
+}
+
+/** Which vessel a warship fired at. */
+export type NavalTarget = 'boat' | 'warship' | 'tradeShip';
+
+export type SeaMap = Pick<WorldData, 'centerNeighbors' | 'centerWater' | 'centerLat' | 'centerLng'>;
+
+/** Index along `path` reached after `seconds` at `speed` hexes per second. */
+export function pathPosition(path: number[], seconds: number, speed: number): number {
+    return Math.min(path.length - 1, Math.max(0, seconds * speed));
+}
+
+/** A hex at `path` position `t`, rounded down to the hex the vessel is in. */
+export function hexAlongPath(path: number[], t: number): number {
+    return path[Math.min(path.length - 1, Math.floor(t))];
+}
+
+/** The point a fraction `f` of the way along the great circle between two lat/lng points, as [lat, lng]. */
+export function greatCirclePoint(lat1: number, lng1: number, lat2: number, lng2: number, f: number): [number, number] {
+    const toRad = Math.PI / 180;
+    const angle = arcAngle(lat1, lng1, lat2, lng2);
+    if (angle < 1e-9) return [lat1, lng1];
+    const a = Math.sin((1 - f) * angle) / Math.sin(angle);
+    const b = Math.sin(f * angle) / Math.sin(angle);
+    const [p1, l1, p2, l2] = [lat1 * toRad, lng1 * toRad, lat2 * toRad, lng2 * toRad];
+    const x = a * Math.cos(p1) * Math.cos(l1) + b * Math.cos(p2) * Math.cos(l2);
+    const y = a * Math.cos(p1) * Math.sin(l1) + b * Math.cos(p2) * Math.sin(l2);
+    const z = a * Math.sin(p1) + b * Math.sin(p2);
+    return [Math.atan2(z, Math.hypot(x, y)) / toRad, Math.atan2(y, x) / toRad];
+}
+
+/** True for a land hex with water next to it: where boats leave and land. */
+export function isShore(map: SeaMap, hexIndex: number): boolean {
+    return !map.centerWater[hexIndex] && map.centerNeighbors[hexIndex].some(n => map.centerWater[n]);
+}
+
+/** Water hexes within `radius` steps of `center` over water only, nearest first. */
+export function waterWithin(map: SeaMap, center: number, radius: number): number[] {
+    const found: number[] = [];
+    const seen = new Set([center]);
+    let ring = [center];
+    for (let step = 1; step <= radius; step++) {
+        const next: number[] = [];
+        for (const h of ring) {
+            for (const n of map.centerNeighbors[h]) {
+                if (seen.has(n) || !map.centerWater[n]) continue;
+                seen.add(n);
+                next.push(n);
+            }
+        }
+        found.push(...next);
+        ring = next;
+    }
+    return found;
+}
+
+/** Shortest route from `from` to `to` that crosses only water hexes in between; either end may be land. */
+export function findSeaPath(map: SeaMap, from: number, to: number): number[] | null {
+    return findPath(map, from, to, h => map.centerWater[h]);
+}
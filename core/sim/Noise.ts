@@ -0,0 +1,102 @@
+import { Random } from './Random';
+
+// Seeded 3D simplex noise. Terrain samples it at points on the unit sphere,
+// so there is no seam at the antimeridian and no pinching at the poles.
+
+const GRAD3 = [
+    [1, 1, 0], [-1, 1, 0], [1, -1, 0], [-1, -1, 0],
+    [1, 0, 1], [-1, 0, 1], [1, 0, -1], [-1, 0, -1],
+    [0, 1, 1], [0, -1, 1], [0, 1, -1], [0, -1, -1],
+];
+
+const F3 = 1 / 3;
+const G3 = 1 / 6;
+
+export class SimplexNoise {
+    private perm = new Uint8Array(512);
+
+    constructor(seed: number) {
+        const rng = new Random(seed);
+        const p = Array.from({ length: 256 }, (_, i) => i);
+        // Fisher-Yates shuffle of the permutation table
+        for (let i = 255; i > 0; i--) {
+            const j = rng.int(0, i + 1);
+            [p[i], p[j]] = [p[j], p[i]];
+        }
+        for (let i = 0; i < 512; i++) this.perm[i] = p[i & 255];
+    }
+
+    /** Noise value in roughly [-1, 1]. */
+    noise3(x: number, y: number, z: number): number {
+        const perm = this.perm;
+        const s = (x + y + z) * F3;
+        const i = Math.floor(x + s);
+        const j = Math.floor(y + s);
+        const k = Math.floor(z + s);
+        const t = (i + j + k) * G3;
+        const x0 = x - (i - t);
+        const y0 = y - (j - t);
+        const z0 = z - (k - t);
+
+        // Which of the six tetrahedra of the skewed cube we are in
+        let i1, j1, k1, i2, j2, k2;
+        if (x0 >= y0) {
+            if (y0 >= z0) { i1 = 1; j1 = 0; k1 = 0; i2 = 1; j2 = 1; k2 = 0; }
+            else if (x0 >= z0) { i1 = 1; j1 = 0; k1 = 0; i2 = 1; j2 = 0; k2 = 1; }
+            else { i1 = 0; j1 = 0; k1 = 1; i2 = 1; j2 = 0; k2 = 1; }
+        } else {
+            if (y0 < z0) { i1 = 0; j1 = 0; k1 = 1; i2 = 0; j2 = 1; k2 = 1; }
+            else if (x0 < z0) { i1 = 0; j1 = 1; k1 = 0; i2 = 0; j2 = 1; k2 = 1; }
+            else { i1 = 0; j1 = 1; k1 = 0; i2 = 1; j2 = 1; k2 = 0; }
+        }
+
+        const corners = [
+            [x0, y0, z0, 0, 0, 0],
+            [x0 - i1 + G3, y0 - j1 + G3, z0 - k1 + G3, i1, j1, k1],
+            [x0 - i2 + 2 * G3, y0 - j2 + 2 * G3, z0 - k2 + 2 * G3, i2, j2, k2],
+            [x0 - 1 + 3 * G3, y0 - 1 + 3 * G3, z0 - 1 + 3 * G3, 1, 1, 1],
+        ];
+        const ii = i & 255;
+        const jj = j & 255;
+        const kk = k & 255;
+
+        let n = 0;
+        for (const [cx, cy, cz, di, dj, dk] of corners) {
+            let falloff = 0.6 - cx * cx - cy * cy - cz * cz;
+            if (falloff < 0) continue;
+            const g = GRAD3[perm[ii + di + perm[jj + dj + perm[kk + dk]]] % 12];
+            falloff *= falloff;
+            n += falloff * falloff * (g[0] * cx + g[1] * cy + g[2] * cz);
+        }
+        return 32 * n;
+    }
+
+    /** Fractal sum of `octaves` layers, each at double the frequency and half the weight. Roughly [-1, 1]. */
+    fbm(x: number, y: number, z: number, octaves: number, frequency: number = 1): number {
+        let sum = 0;
+        let amplitude = 1;
+        let total = 0;
+        for (let o = 0; o < octaves; o++) {
+            sum += amplitude * this.noise3(x * frequency, y * frequency, z * frequency);
+            total += amplitude;
+            amplitude *= 0.5;
+            frequency *= 2;
+        }
+        return sum / total;
+    }
+
+    /** Ridged noise in [0, 1]: sharp crests where the noise crosses zero, for mountain chains. */
+    ridged(x: number, y: number, z: number, octaves: number, frequency: number = 1): number {
+        let sum = 0;
+        let amplitude = 1;
+        let total = 0;
+        for (let o = 0; o < octaves; o++) {
+            const r = 1 - Math.abs(this.noise3(x * frequency, y * frequency, z * frequency));
+            sum += amplitude * r * r;
+            total += amplitude;
+            amplitude *= 0.5;
+            frequency *= 2;
+        }
+        return sum / total;
+    }
+}
@@ -0,0 +1,99 @@
+import { arcAngle } from './Missiles';
+import type { WorldData } from './types';
+
+// Route search over the hex grid, shared by boats, warships and roads. Callers
+// say which hexes a route may cross; distances are great-circle angles.
+
+/** Hexes explored before a route search gives up. */
+const MAX_ROUTE_NODES = 20000;
+
+export type PathMap = Pick<WorldData, 'centerNeighbors' | 'centerLat' | 'centerLng'>;
+
+/**
+ * Shortest route by great-circle distance from `from` to `to` whose hexes in
+ * between all pass `passable`; the ends are always allowed. A* over
+ * centerNeighbors with the straight-line angle as the heuristic. Returns the
+ * hexes from `from` to `to`, or null if no route exists.
+ */
+export function findPath(map: PathMap, from: number, to: number, passable: (hexIndex: number) => boolean): number[] | null {
+    if (from === to) return [from];
+    const { centerNeighbors, centerLat, centerLng } = map;
+    const angle = (a: number, b: number) => arcAngle(centerLat[a], centerLng[a], centerLat[b], centerLng[b]);
+
+    const cost = new Map<number, number>([[from, 0]]);
+    const parent = new Map<number, number>();
+    const closed = new Set<number>();
+    const open = new MinHeap();
+    open.push(from, angle(from, to));
+
+    while (open.size > 0 && closed.size < MAX_ROUTE_NODES) {
+        const current = open.pop();
+        if (current === to) {
+            const path = [to];
+            for (let h = to; h !== from;) {
+                h = parent.get(h)!;
+                path.push(h);
+            }
+            return path.reverse();
+        }
+        if (closed.has(current)) continue;
+        closed.add(current);
+        for (const n of centerNeighbors[current]) {
+            if (closed.has(n) || (n !== to && !passable(n))) continue;
+            const g = cost.get(current)! + angle(current, n);
+            if (g >= (cost.get(n) ?? Infinity)) continue;
+            cost.set(n, g);
+            parent.set(n, current);
+            open.push(n, g + angle(n, to));
+        }
+    }
+    return null;
+}
+
+/** Binary min-heap of hex indices keyed by priority, for findPath. */
+class MinHeap {
+    private items: number[] = [];
+    private priorities: number[] = [];
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    push(item: number, priority: number) {
+        const { items, priorities } = this;
+        let i = items.length;
+        items.push(item);
+        priorities.push(priority);
+        while (i > 0) {
+            const up = (i - 1) >> 1;
+            if (priorities[up] <= priority) break;
+            items[i] = items[up];
+            priorities[i] = priorities[up];
+            i = up;
+        }
+        items[i] = item;
+        priorities[i] = priority;
+    }
+
+    pop(): number {
+        const { items, priorities } = this;
+        const top = items[0];
+        const lastItem = items.pop()!;
+        const lastPriority = priorities.pop()!;
+        const n = items.length;
+        if (n === 0) return top;
+        let i = 0;
+        for (;;) {
+            let child = 2 * i + 1;
+            if (child >= n) break;
+            if (child + 1 < n && priorities[child + 1] < priorities[child]) child++;
+            if (priorities[child] >= lastPriority) break;
+            items[i] = items[child];
+            priorities[i] = priorities[child];
+            i = child;
+        }
+        items[i] = lastItem;
+        priorities[i] = lastPriority;
+        return top;
+    }
+}
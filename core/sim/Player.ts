@@ -0,0 +1,29 @@
+// Nation registry entry. Every owned hex stores the id of one of these.
+
+export const NO_OWNER = -1;
+
+export const PLAYER_COLORS = [0x3366ff, 0xff3333, 0x33cc66, 0xffaa00, 0xaa33ff, 0x00cccc, 0xff66cc, 0x996633];
+
+export interface Player {
+    id: number;
+    name: string;
+    color: number;
+    troops: number;
+    cash: number;
+    territorySize: number;
+    capitalPlaced: boolean;
+    /** Balance between troop growth (1) and cash (0), set by the player */
+    troopFocus: number;
+}
+
+/** Per-player numbers broadcast every tick; everything else changes through events. */
+export interface PlayerStats {
+    id: number;
+    troops: number;
+    cash: number;
+    territorySize: number;
+}
+
+export function playerStats(p: Player): PlayerStats {
+    return { id: p.id, troops: p.troops, cash: p.cash, territorySize: p.territorySize };
+}
@@ -0,0 +1,26 @@
+import { BASE_TROOP_CAP, TROOP_CAP_PER_HEX, PEAK_GROWTH_RATE, MIN_GROWTH, MIN_ATTACK_RATIO } from './Balance';
+
+// Troop population. Every nation's army regrows toward a cap set by its land
+// and cities, fastest at half capacity; each attack or expansion order sends
+// a share of it that the player picks.
+
+export function troopCap(territorySize: number, buildingCap: number): number {
+    return BASE_TROOP_CAP + territorySize * TROOP_CAP_PER_HEX + buildingCap;
+}
+
+/**
+ * Troops gained per second: a logistic curve that peaks at half the cap and
+ * falls to nothing at it. Building bonuses (cities) are added on top and
+ * taper off the same way.
+ */
+export function troopGrowth(troops: number, cap: number, buildingBonus: number): number {
+    if (cap <= 0 || troops >= cap) return 0;
+    const fill = Math.max(0, troops / cap);
+    const curve = 4 * PEAK_GROWTH_RATE * cap * fill * (1 - fill);
+    return Math.max(MIN_GROWTH * (1 - fill), curve) + buildingBonus * (1 - fill);
+}
+
+/** Keeps a chosen share between MIN_ATTACK_RATIO and everything, rounded to whole percent. */
+export function clampAttackRatio(ratio: number): number {
+    return Math.round(Math.max(MIN_ATTACK_RATIO, Math.min(1, ratio)) * 100) / 100;
+}
@@ -0,0 +1,35 @@
+// Small seeded PRNG (mulberry32). Every source of randomness in the simulation
+// must go through this so a match can be reproduced from its seed.
+export class Random {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    /** Returns a float in [0, 1). */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /** Returns an integer in [min, max). */
+    int(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min));
+    }
+
+    pick<T>(items: T[]): T {
+        return items[this.int(0, items.length)];
+    }
+
+    getState(): number {
+        return this.state;
+    }
+
+    setState(state: number) {
+        this.state = state >>> 0;
+    }
+}
@@ -0,0 +1,155 @@
+import type { SimSaveState } from './Simulation';
+import type { BotSave } from './Bots';
+import { sanitizeWorldSettings, WorldSettings } from './WorldSettings';
+import { DEFAULT_TROOP_FOCUS } from './Balance';
+import { ROAD_TYPES } from './Infrastructure';
+import { DEFAULT_MATCH_SETTINGS, sanitizeMatchSettings } from './Match';
+
+// Versioned save files. A save is plain JSON: a header naming the format and
+// schema version, then the full simulation state. Old schema versions are
+// upgraded one step at a time through MIGRATIONS before validation, so a
+// save only has to be readable by the migration after it.
+
+export const SAVE_FORMAT = 'sketchi-save';
+export const SAVE_SCHEMA_VERSION = 8;
+
+export interface SaveFile {
+    format: typeof SAVE_FORMAT;
+    schemaVersion: number;
+    savedAt: string;
+    /** Settings that regenerate the map the match was played on */
+    world: WorldSettings;
+    /** Hex count of that map; loading onto a different grid is refused */
+    hexCount: number;
+    localPlayerId: number;
+    state: SimSaveState;
+    bots: BotSave[];
+}
+
+export type SaveParseResult = { ok: true; save: SaveFile } | { ok: false; error: string };
+
+/**
+ * Upgrades a save from schema version N to N + 1, keyed by N. Add an entry
+ * here whenever SAVE_SCHEMA_VERSION is bumped. Schemas 1 to 3 have none:
+ * their maps came from older generators (fixed terrain, the biomes before
+ * lakes and rivers, the sampled hex grid), so the hexes they own no longer
+ * match.
+ */
+const MIGRATIONS: Record<number, (save: any) => any> = {
+    // Schema 5 adds the troop/cash focus and trade ships
+    4: save => ({
+        ...save,
+        schemaVersion: 5,
+        state: save.state && {
+            ...save.state,
+            players: Array.isArray(save.state.players) ? save.state.players.map((p: any) => ({ ...p, troopFocus: DEFAULT_TROOP_FOCUS })) : save.state.players,
+            tradeShips: [],
+            nextTradeShipId: 1,
+        },
+    }),
+    // Schema 6 adds transport boats and warships
+    5: save => ({
+        ...save,
+        schemaVersion: 6,
+        state: save.state && { ...save.state, boats: [], warships: [], nextBoatId: 1, nextWarshipId: 1 },
+    }),
+    // Schema 7 adds bridges, roads and railroads
+    6: save => ({
+        ...save,
+        schemaVersion: 7,
+        state: save.state && { ...save.state, bridges: [], roads: [], nextBridgeId: 1, nextRoadId: 1 },
+    }),
+    // Schema 8 adds match settings and the outcome; older matches ran on the defaults
+    7: save => ({
+        ...save,
+        schemaVersion: 8,
+        state: save.state && { ...save.state, matchSettings: DEFAULT_MATCH_SETTINGS, outcome: null },
+    }),
+};
+
+export function createSave(state: SimSaveState, world: WorldSettings, hexCount: number, localPlayerId: number, bots: BotSave[]): SaveFile {
+    return {
+        format: SAVE_FORMAT,
+        schemaVersion: SAVE_SCHEMA_VERSION,
+        savedAt: new Date().toISOString(),
+        world,
+        hexCount,
+        localPlayerId,
+        state,
+        bots,
+    };
+}
+
+const isInt = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v);
+const isNum = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+/** Checks the parts of the state the game indexes into; returns what is wrong, or null. */
+function validateState(state: any, hexCount: number): string | null {
+    if (!state || typeof state !== 'object') return 'missing match state';
+    if (!isInt(state.tick) || !isInt(state.seed) || !isInt(state.rngState)) return 'bad tick or seed';
+    if (!Array.isArray(state.players) || state.players.length === 0) return 'no players';
+    for (const p of state.players) {
+        if (!p || !isInt(p.id) || typeof p.name !== 'string' || !isNum(p.troops) || !isNum(p.cash)) return 'bad player entry';
+        if (!isNum(p.troopFocus) || p.troopFocus < 0 || p.troopFocus > 1) return 'bad player entry';
+    }
+    const isHex = (h: unknown) => isInt(h) && h >= 0 && h < hexCount;
+    const isPlayer = (id: unknown) => isInt(id) && id >= 0 && id < state.players.length;
+    if (!Array.isArray(state.owned) || !state.owned.every((o: any) => Array.isArray(o) && isHex(o[0]) && isPlayer(o[1]))) return 'bad hex ownership';
+    if (!Array.isArray(state.buildings) || !state.buildings.every((b: any) => b && isHex(b.hexIndex) && isPlayer(b.ownerId))) return 'bad buildings';
+    for (const key of ['expansions', 'attacks', 'missiles', 'tradeShips', 'boats', 'warships', 'bridges', 'roads', 'fallout']) {
+        if (!Array.isArray(state[key])) return `missing ${key}`;
+    }
+    if (!state.expansions.every((e: any) => e && isPlayer(e.playerId) && Array.isArray(e.frontier) && e.frontier.every(isHex))) return 'bad expansions';
+    if (!state.attacks.every((a: any) => a && isPlayer(a.attackerId) && isPlayer(a.defenderId) && Array.isArray(a.frontier) && a.frontier.every(isHex))) return 'bad attacks';
+    if (!state.tradeShips.every((s: any) => s && isPlayer(s.ownerId) && isPlayer(s.partnerId) && isHex(s.fromHexIndex) && isHex(s.toHexIndex))) return 'bad trade ships';
+    if (!isInt(state.nextTradeShipId)) return 'bad trade ships';
+    const isRoute = (path: unknown) => Array.isArray(path) && path.length > 0 && path.every(isHex);
+    if (!state.boats.every((b: any) => b && isPlayer(b.ownerId) && isNum(b.troops) && isRoute(b.path)) || !isInt(state.nextBoatId)) return 'bad boats';
+    if (!state.warships.every((w: any) => w && isPlayer(w.ownerId) && isHex(w.homeHexIndex) && isRoute(w.path)) || !isInt(state.nextWarshipId)) return 'bad warships';
+    if (!state.bridges.every((b: any) => b && isPlayer(b.ownerId) && isRoute(b.path)) || !isInt(state.nextBridgeId)) return 'bad bridges';
+    if (!state.roads.every((r: any) => r && isPlayer(r.ownerId) && ROAD_TYPES.includes(r.type) && isRoute(r.path)) || !isInt(state.nextRoadId)) return 'bad roads';
+    if (!state.diplomacy || !Array.isArray(state.diplomacy.alliances)) return 'missing diplomacy';
+    if (!state.matchSettings || typeof state.matchSettings !== 'object') return 'missing match settings';
+    if (state.outcome !== null && !(state.outcome && Array.isArray(state.outcome.winners) && state.outcome.winners.every(isPlayer) && Array.isArray(state.outcome.standings))) return 'bad outcome';
+    return null;
+}
+
+/**
+ * Parses a save file's text. Never throws. The caller still has to check
+ * `hexCount` against the map it regenerates from `world`.
+ */
+export function parseSave(text: string): SaveParseResult {
+    let save: any;
+    try {
+        save = JSON.parse(text);
+    } catch {
+        return { ok: false, error: 'This file is not valid JSON.' };
+    }
+    if (!save || typeof save !== 'object' || save.format !== SAVE_FORMAT) {
+        return { ok: false, error: 'This file is not a Sketchi save.' };
+    }
+    if (!isInt(save.schemaVersion) || save.schemaVersion < 1) {
+        return { ok: false, error: 'The save has no valid schema version.' };
+    }
+    if (save.schemaVersion > SAVE_SCHEMA_VERSION) {
+        return { ok: false, error: `The save was made by a newer version of the game (schema ${save.schemaVersion}).` };
+    }
+    while (save.schemaVersion < SAVE_SCHEMA_VERSION) {
+        const migrate = MIGRATIONS[save.schemaVersion];
+        if (!migrate) return { ok: false, error: `Saves from schema ${save.schemaVersion} can no longer be loaded.` };
+        save = migrate(save);
+    }
+
+    if (!isInt(save.hexCount) || save.hexCount <= 0 || !save.world || typeof save.world !== 'object') {
+        return { ok: false, error: 'The save is corrupted (missing map settings).' };
+    }
+    save.world = sanitizeWorldSettings(save.world);
+    const problem = validateState(save.state, save.hexCount);
+    if (problem) return { ok: false, error: `The save is corrupted (${problem}).` };
+    save.state.matchSettings = sanitizeMatchSettings(save.state.matchSettings);
+    if (!isInt(save.localPlayerId) || !save.state.players[save.localPlayerId]) {
+        return { ok: false, error: 'The save is corrupted (unknown local player).' };
+    }
+    if (!Array.isArray(save.bots)) return { ok: false, error: 'The save is corrupted (missing bots).' };
+    return { ok: true, save: save as SaveFile };
+}
@@ -0,0 +1,1686 @@
+import { Random } from './Random';
+import { ALLIANCE_REQUEST_SECONDS, ATTACKER_LOSS_FACTOR, BOAT_LAUNCH_CANDIDATES, BOAT_SPEED, BRIDGE_BUILD_TIME, BRIDGE_COST, CAPTURE_DAMAGE, DEFAULT_TROOP_FOCUS, DEFENDER_LOSS_FACTOR, FALLOUT_SECONDS, INTERCEPT_PHASE, MAX_BOATS, MAX_BRIDGE_SPAN, MAX_EXPANSION_SPEED, MAX_HEALTH, MAX_ROAD_LENGTH, MIN_CAPTURE_COST, MIN_EXPANSION_SPEED, RIVER_INCOME, SAM_RANGE, SAM_RELOAD, SILO_RELOAD, TRADE_SHIP_INTERVAL, TRADE_WINDOW, TRAITOR_SECONDS, WARSHIP_COST, WARSHIP_DAMAGE, WARSHIP_PATROL_RADIUS, WARSHIP_RANGE, WARSHIP_RELOAD, WARSHIP_SPEED, WARSHIPS_PER_PORT } from './Balance';
+import { NO_OWNER, Player, PLAYER_COLORS, PlayerStats } from './Player';
+import { defaultExpansionSpeed, expansionCost, ExpansionInProgress, expansionTime } from './Expansion';
+import { AttackInProgress, captureTime, hexDefense } from './Combat';
+import { Building, BUILDINGS, BuildingType, isOperational } from './Buildings';
+import { arcAngle, flightTime, MissileInFlight, MISSILES, MissileType } from './Missiles';
+import { Diplomacy, DiplomacyAction, DiplomacyState } from './Diplomacy';
+import { findSeaPath, greatCirclePoint, hexAlongPath, isShore, NavalTarget, pathPosition, TransportBoat, Warship, waterWithin } from './Naval';
+import { Bridge, Road, ROADS, RoadType } from './Infrastructure';
+import { findPath } from './Pathfinding';
+import { troopCap, troopGrowth } from './Population';
+import { DEFAULT_MATCH_SETTINGS, MatchOutcome, matchScore, MatchSettings, MatchStanding, teamOf, VictoryReason } from './Match';
+import { armyUpkeep, cargoValue, focusMultipliers, IncomeBreakdown, TradeShip, voyageTime } from './Economy';
+import { BIOMES } from './Biomes';
+import type { WorldData } from './types';
+
+// Headless, tick-based game rules. The simulation owns every piece of match
+// state (ownership, expansions, attacks, troops, cash, trade) and reports changes through
+// events; World only listens and paints. Runs unchanged in Node.
+
+export const TICK_RATE = 10; // ticks per second
+export const TICK_SECONDS = 1 / TICK_RATE;
+
+export type SimEvent =
+    | { type: 'playerAdded'; player: Player }
+    | { type: 'hexOwned'; hexIndex: number; ownerId: number; previousOwnerId: number }
+    | { type: 'conquestProgress'; hexIndex: number; playerId: number; progress: number }
+    | { type: 'expansionStarted'; expansionId: number; playerId: number; troops: number }
+    | { type: 'expansionEnded'; expansionId: number; playerId: number; troopsReturned: number; hexIndex: number }
+    | { type: 'buildingPlaced'; building: Building }
+    | { type: 'buildingCompleted'; buildingId: number }
+    | { type: 'buildingCaptured'; buildingId: number; ownerId: number; health: number }
+    | { type: 'attackStarted'; attackId: number; attackerId: number; defenderId: number; troops: number }
+    | { type: 'attackEnded'; attackId: number; attackerId: number; defenderId: number; troopsReturned: number }
+    | { type: 'buildingDestroyed'; buildingId: number }
+    | { type: 'missileLaunched'; missile: MissileInFlight }
+    | { type: 'missileIntercepted'; missileId: number; samId: number }
+    | { type: 'missileImpact'; missileId: number; hexIndex: number; blastHexes: number[]; irradiated: boolean }
+    | { type: 'falloutCleared'; hexIndices: number[] }
+    | { type: 'allianceRequested'; fromId: number; toId: number; expiresTick: number }
+    | { type: 'allianceRequestEnded'; fromId: number; toId: number }
+    | { type: 'allianceFormed'; a: number; b: number }
+    | { type: 'allianceBroken'; breakerId: number; otherId: number; traitorUntil: number }
+    | { type: 'embargoChanged'; fromId: number; toId: number; active: boolean }
+    | { type: 'troopFocusChanged'; playerId: number; focus: number }
+    | { type: 'tradeShipLaunched'; ship: TradeShip }
+    | { type: 'tradeShipArrived'; shipId: number; ownerId: number; partnerId: number; cargo: number }
+    | { type: 'tradeShipLost'; shipId: number }
+    | { type: 'boatLaunched'; boat: TransportBoat }
+    | { type: 'boatLanded'; boatId: number; hexIndex: number; captured: boolean }
+    | { type: 'boatSunk'; boatId: number; warshipId: number }
+    | { type: 'warshipBuilt'; warship: Warship }
+    | { type: 'warshipMoved'; warshipId: number; path: number[]; legStartTick: number }
+    | { type: 'warshipFired'; warshipId: number; target: NavalTarget; targetId: number }
+    | { type: 'warshipDamaged'; warshipId: number; health: number }
+    | { type: 'warshipSunk'; warshipId: number }
+    | { type: 'bridgeBuilt'; bridge: Bridge }
+    | { type: 'bridgeCompleted'; bridgeId: number }
+    | { type: 'bridgeDestroyed'; bridgeId: number }
+    | { type: 'roadBuilt'; road: Road }
+    | { type: 'roadCompleted'; roadId: number }
+    | { type: 'roadDestroyed'; roadId: number }
+    | { type: 'matchEnded'; outcome: MatchOutcome };
+
+export type SimListener = (event: SimEvent) => void;
+
+/** Player actions. Implemented by Simulation and by NetworkManager, which forwards them to the server. */
+export interface SimActions {
+    placeCapital(playerId: number, hexIndex: number): boolean;
+    build(playerId: number, hexIndex: number, type: BuildingType): boolean;
+    startExpansion(playerId: number, hexIndex: number, troopsToSend: number, speed?: number): boolean;
+    cancelExpansion(playerId: number, expansionId: number): boolean;
+    attack(playerId: number, hexIndex: number, troopsToSend: number): boolean;
+    launchMissile(playerId: number, hexIndex: number, type: MissileType): boolean;
+    diplomaticAction(playerId: number, targetId: number, action: DiplomacyAction): boolean;
+    setTroopFocus(playerId: number, focus: number): boolean;
+    launchBoat(playerId: number, hexIndex: number, troopsToSend: number): boolean;
+    buildWarship(playerId: number, hexIndex: number): boolean;
+    buildBridge(playerId: number, hexIndex: number): boolean;
+    buildRoad(playerId: number, hexIndex: number, type: RoadType): boolean;
+}
+
+/** Full match state, sent to clients when they join or reconnect. */
+export interface SimSnapshot {
+    tick: number;
+    players: Player[];
+    /** [hexIndex, ownerId] pairs for every owned hex */
+    owned: [number, number][];
+    buildings: Building[];
+    missiles: MissileInFlight[];
+    tradeShips: TradeShip[];
+    boats: TransportBoat[];
+    warships: Warship[];
+    bridges: Bridge[];
+    roads: Road[];
+    /** [hexIndex, seconds left] for every irradiated hex */
+    fallout: [number, number][];
+    diplomacy: DiplomacyState;
+    matchSettings: MatchSettings;
+    /** Set once a nation or team has won */
+    outcome: MatchOutcome | null;
+}
+
+/** Everything needed to resume a match exactly, including work in progress. Used by save files. */
+export interface SimSaveState extends SimSnapshot {
+    seed: number;
+    rngState: number;
+    active: boolean;
+    troopTimer: number;
+    expansions: ExpansionInProgress[];
+    attacks: AttackInProgress[];
+    nextBuildingId: number;
+    nextExpansionId: number;
+    nextAttackId: number;
+    nextMissileId: number;
+    nextTradeShipId: number;
+    nextBoatId: number;
+    nextWarshipId: number;
+    nextBridgeId: number;
+    nextRoadId: number;
+}
+
+export interface SimulationOptions {
+    seed?: number;
+    match?: MatchSettings;
+}
+
+/** Something that issues orders every tick, e.g. an AI nation. Runs before the rules advance. */
+export interface SimController {
+    update(sim: Simulation): void;
+}
+
+export type SimulationMap = Pick<WorldData, 'centerNeighbors' | 'centerWater' | 'centerLat' | 'centerLng' | 'biomes' | 'elevations' | 'centerRiver'>;
+
+export class Simulation implements SimActions {
+    tick: number = 0;
+    seed: number;
+    rng: Random;
+    map: SimulationMap;
+    active: boolean = false;
+    matchSettings: MatchSettings;
+    outcome: MatchOutcome | null = null;
+
+    players: Player[] = [];
+    centerOwner: number[];
+    /** Cash per second each hex earns its owner, from its biome and any river */
+    private hexIncome: number[];
+    /** Land hexes on the map, for the domination win condition */
+    private landCount: number;
+    buildings: Building[] = [];
+    nextBuildingId: number = 1;
+    expansions: ExpansionInProgress[] = [];
+    nextExpansionId: number = 1;
+    attacks: AttackInProgress[] = [];
+    nextAttackId: number = 1;
+    missiles: MissileInFlight[] = [];
+    nextMissileId: number = 1;
+    tradeShips: TradeShip[] = [];
+    nextTradeShipId: number = 1;
+    boats: TransportBoat[] = [];
+    nextBoatId: number = 1;
+    warships: Warship[] = [];
+    nextWarshipId: number = 1;
+    bridges: Bridge[] = [];
+    nextBridgeId: number = 1;
+    roads: Road[] = [];
+    nextRoadId: number = 1;
+    /** Both ends of every finished bridge, each listing the other */
+    private links = new Map<number, number[]>();
+    /** Per nation, the hexes on or next to its finished roads and the best speed bonus there */
+    private roadBonus = new Map<number, Map<number, number>>();
+    /** Recent arrivals, for the trade line of incomeBreakdown() */
+    private tradeLog: { tick: number; playerId: number; cash: number }[] = [];
+    /** Irradiated hexes and the seconds until they can be settled again */
+    fallout = new Map<number, number>();
+    diplomacy = new Diplomacy();
+    troopTimer: number = 0;
+    controllers: SimController[] = [];
+
+    private listeners = new Set<SimListener>();
+
+    constructor(map: SimulationMap, options: SimulationOptions = {}) {
+        this.map = map;
+        this.seed = options.seed ?? 1;
+        this.rng = new Random(this.seed);
+        this.matchSettings = options.match ?? DEFAULT_MATCH_SETTINGS;
+        this.centerOwner = new Array(map.centerNeighbors.length).fill(NO_OWNER);
+        this.hexIncome = map.biomes.map((b, i) => BIOMES[b].income + (map.centerRiver[i] ? RIVER_INCOME : 0));
+        this.landCount = map.centerWater.filter(w => !w).length;
+    }
+
+    get hexCount(): number {
+        return this.centerOwner.length;
+    }
+
+    subscribe(listener: SimListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private emit(event: SimEvent) {
+        this.listeners.forEach(l => l(event));
+    }
+
+    activate() {
+        this.active = true;
+    }
+
+    addPlayer(name: string, color?: number): Player {
+        const id = this.players.length;
+        const player: Player = {
+            id,
+            name,
+            color: color ?? PLAYER_COLORS[id % PLAYER_COLORS.length],
+            troops: this.matchSettings.startingTroops,
+            cash: this.matchSettings.startingCash,
+            territorySize: 0,
+            capitalPlaced: false,
+            troopFocus: DEFAULT_TROOP_FOCUS,
+        };
+        this.players.push(player);
+        this.emit({ type: 'playerAdded', player });
+        // Teammates start out allied, and stay that way
+        for (const other of this.players) {
+            if (other.id === id || !this.sameTeam(id, other.id)) continue;
+            this.diplomacy.setAllied(other.id, id, true);
+            this.emit({ type: 'allianceFormed', a: other.id, b: id });
+        }
+        return player;
+    }
+
+    /** Whether two nations play on the same team. Never true without teams. */
+    sameTeam(a: number, b: number): boolean {
+        return this.matchSettings.teams > 1 && teamOf(this.matchSettings, a) === teamOf(this.matchSettings, b);
+    }
+
+    addController(controller: SimController) {
+        this.controllers.push(controller);
+    }
+
+    getPlayer(id: number): Player | undefined {
+        return this.players[id];
+    }
+
+    ownerOf(hexIndex: number): Player | undefined {
+        const id = this.centerOwner[hexIndex];
+        return id === NO_OWNER ? undefined : this.players[id];
+    }
+
+    private isValidHex(hexIndex: number): boolean {
+        return Number.isInteger(hexIndex) && hexIndex >= 0 && hexIndex < this.hexCount;
+    }
+
+    /** A hex's neighbors for the rules: the grid's, plus the far end of any finished bridge. */
+    neighborsOf(hexIndex: number): number[] {
+        const linked = this.links.get(hexIndex);
+        return linked ? [...this.map.centerNeighbors[hexIndex], ...linked] : this.map.centerNeighbors[hexIndex];
+    }
+
+    /** True if any neighbor of the hex belongs to the player. */
+    isAdjacentTo(playerId: number, hexIndex: number): boolean {
+        const neigh = this.isValidHex(hexIndex) ? this.neighborsOf(hexIndex) : [];
+        return neigh.some(n => this.centerOwner[n] === playerId);
+    }
+
+    private setOwner(hexIndex: number, ownerId: number) {
+        const previousOwnerId = this.centerOwner[hexIndex];
+        if (previousOwnerId === ownerId) return;
+        const previous = this.players[previousOwnerId];
+        if (previous) previous.territorySize--;
+        const owner = this.players[ownerId];
+        if (owner) owner.territorySize++;
+        this.centerOwner[hexIndex] = ownerId;
+        this.emit({ type: 'hexOwned', hexIndex, ownerId, previousOwnerId });
+        if (previousOwnerId !== NO_OWNER) this.cutInfrastructure(hexIndex, previousOwnerId);
+    }
+
+    private addBuilding(playerId: number, hexIndex: number, type: BuildingType, name: string, isCapital: boolean) {
+        const building: Building = {
+            id: this.nextBuildingId++,
+            type,
+            hexIndex,
+            ownerId: playerId,
+            name,
+            health: MAX_HEALTH,
+            isCapital,
+            // The capital is founded ready-made; everything else has to be built
+            constructionLeft: isCapital ? 0 : BUILDINGS[type].buildTime,
+            cooldown: 0,
+        };
+        this.buildings.push(building);
+        this.emit({ type: 'buildingPlaced', building: { ...building } });
+        this.setOwner(hexIndex, playerId);
+    }
+
+    placeCapital(playerId: number, hexIndex: number): boolean {
+        const player = this.players[playerId];
+        if (!player || !this.isValidHex(hexIndex)) return false;
+        if (player.capitalPlaced) return false; // Only one capital allowed
+        if (this.map.centerWater[hexIndex]) return false;
+        if (this.centerOwner[hexIndex] !== NO_OWNER) return false;
+
+        player.capitalPlaced = true;
+        this.addBuilding(playerId, hexIndex, 'city', 'Capital', true);
+        return true;
+    }
+
+    buildingAt(hexIndex: number): Building | undefined {
+        return this.buildings.find(b => b.hexIndex === hexIndex);
+    }
+
+    buildingsOf(playerId: number): Building[] {
+        return this.buildings.filter(b => b.ownerId === playerId);
+    }
+
+    /** Why `type` can't be built on the hex, or null if it can. Shared by the rules and the build menu. */
+    canBuild(playerId: number, hexIndex: number, type: BuildingType): string | null {
+        const player = this.players[playerId];
+        const spec = BUILDINGS[type];
+        if (!player || !spec || !this.isValidHex(hexIndex)) return 'Invalid order';
+        if (!player.capitalPlaced) return 'Place your capital first';
+        if (this.centerOwner[hexIndex] !== playerId) return 'Not your territory';
+        if (this.buildingAt(hexIndex)) return 'Hex already has a building';
+        if (!spec.biomes.includes(this.map.biomes[hexIndex])) return `Cannot be built on ${BIOMES[this.map.biomes[hexIndex]].name.toLowerCase()}`;
+        if (player.cash < spec.cost) return 'Not enough cash';
+        return null;
+    }
+
+    build(playerId: number, hexIndex: number, type: BuildingType): boolean {
+        if (this.canBuild(playerId, hexIndex, type) !== null) return false;
+        const player = this.players[playerId];
+        const spec = BUILDINGS[type];
+        player.cash -= spec.cost;
+        const count = this.buildingsOf(playerId).filter(b => b.type === type).length;
+        this.addBuilding(playerId, hexIndex, type, `${player.name} ${spec.name} ${count}`, false);
+        return true;
+    }
+
+    /** Sum of a building stat over a player's operational buildings. */
+    private buildingTotal(playerId: number, stat: 'troopCap' | 'troopGrowth' | 'income'): number {
+        let total = 0;
+        for (const b of this.buildings) {
+            if (b.ownerId === playerId && isOperational(b)) total += BUILDINGS[b.type][stat];
+        }
+        return total;
+    }
+
+    maxTroops(playerId: number): number {
+        const player = this.players[playerId];
+        if (!player) return 0;
+        return troopCap(player.territorySize, this.buildingTotal(playerId, 'troopCap'));
+    }
+
+    /** Cash paid every second: land, buildings and roads scaled by the troop focus, less army upkeep. Trade is paid on arrival. */
+    incomePerSecond(playerId: number): number {
+        const { terrain, buildings, roads, upkeep } = this.incomeBreakdown(playerId);
+        return terrain + buildings + roads - upkeep;
+    }
+
+    incomeBreakdown(playerId: number): IncomeBreakdown {
+        const player = this.players[playerId];
+        if (!player) return { terrain: 0, buildings: 0, roads: 0, trade: 0, upkeep: 0, total: 0 };
+        const multiplier = focusMultipliers(player.troopFocus).cash;
+        const terrain = Math.floor(this.terrainIncome(playerId) * multiplier);
+        const buildings = Math.floor(this.buildingTotal(playerId, 'income') * multiplier);
+        const trade = Math.floor(this.tradeIncome(playerId));
+        let roadTotal = 0;
+        for (const r of this.roads) {
+            if (r.ownerId === playerId && r.constructionLeft <= 0) roadTotal += ROADS[r.type].income;
+        }
+        const roads = Math.floor(roadTotal * multiplier);
+        const upkeep = Math.ceil(armyUpkeep(player.troops));
+        return { terrain, buildings, roads, trade, upkeep, total: terrain + buildings + roads + trade - upkeep };
+    }
+
+    /** What the land itself yields: every owned hex earns by biome, more along rivers. */
+    terrainIncome(playerId: number): number {
+        let total = 0;
+        for (let i = 0; i < this.centerOwner.length; i++) {
+            if (this.centerOwner[i] === playerId) total += this.hexIncome[i];
+        }
+        return Math.floor(total);
+    }
+
+    /** Cash per second from trade ships that arrived over the last TRADE_WINDOW seconds. */
+    tradeIncome(playerId: number): number {
+        const since = this.tick - TRADE_WINDOW * TICK_RATE;
+        let total = 0;
+        for (const entry of this.tradeLog) {
+            if (entry.playerId === playerId && entry.tick > since) total += entry.cash;
+        }
+        return total / TRADE_WINDOW;
+    }
+
+    /** Sets how a nation splits its effort: 0 puts everything into cash, 1 into troop growth. */
+    setTroopFocus(playerId: number, focus: number): boolean {
+        const player = this.players[playerId];
+        if (!player || !Number.isFinite(focus) || focus < 0 || focus > 1) return false;
+        player.troopFocus = focus;
+        this.emit({ type: 'troopFocusChanged', playerId, focus });
+        return true;
+    }
+
+    /** Strongest fortification covering a hex: defense posts protect everything within their radius. */
+    fortificationAt(hexIndex: number): number {
+        const ownerId = this.centerOwner[hexIndex];
+        let best = 1;
+        for (const b of this.buildings) {
+            const spec = BUILDINGS[b.type];
+            if (b.ownerId !== ownerId || spec.defense <= best || !isOperational(b)) continue;
+            if (this.hexDistance(b.hexIndex, hexIndex, spec.defenseRadius) !== -1) best = spec.defense;
+        }
+        return best;
+    }
+
+    /** Every hex within `radius` steps of `center`, nearest first. */
+    hexesWithin(center: number, radius: number): number[] {
+        const found = [center];
+        const seen = new Set(found);
+        let ring = [center];
+        for (let step = 1; step <= radius; step++) {
+            const next: number[] = [];
+            for (const h of ring) {
+                for (const n of this.map.centerNeighbors[h]) {
+                    if (!seen.has(n)) { seen.add(n); next.push(n); }
+                }
+            }
+            found.push(...next);
+            ring = next;
+        }
+        return found;
+    }
+
+    /** Steps between two hexes over centerNeighbors, or -1 if further apart than maxSteps. */
+    hexDistance(from: number, to: number, maxSteps: number): number {
+        if (from === to) return 0;
+        let ring = [from];
+        const seen = new Set(ring);
+        for (let step = 1; step <= maxSteps; step++) {
+            const next: number[] = [];
+            for (const h of ring) {
+                for (const n of this.map.centerNeighbors[h]) {
+                    if (n === to) return step;
+                    if (!seen.has(n)) { seen.add(n); next.push(n); }
+                }
+            }
+            ring = next;
+        }
+        return -1;
+    }
+
+    private isClaimable(hexIndex: number): boolean {
+        return !this.map.centerWater[hexIndex] && this.centerOwner[hexIndex] === NO_OWNER && !this.fallout.has(hexIndex);
+    }
+
+    /**
+     * Sends troops into unclaimed land. The expansion floods outward from
+     * `hexIndex` along the player's whole border, settling up to `speed` hexes
+     * per second until its troops run out. Several can run at once.
+     */
+    startExpansion(playerId: number, hexIndex: number, troopsToSend: number, speed?: number): boolean {
+        const player = this.players[playerId];
+        if (!player || !this.isValidHex(hexIndex)) return false;
+        if (!player.capitalPlaced) return false; // Found the nation first
+        troopsToSend = Math.floor(troopsToSend);
+        if (troopsToSend <= 0 || troopsToSend > player.troops) return false;
+        if (!this.isClaimable(hexIndex)) return false;
+
+        const hasTerritory = player.territorySize > 0;
+        if (hasTerritory && !this.isAdjacentTo(playerId, hexIndex)) {
+            return false; // Must be adjacent to owned territory
+        }
+
+        // Order the starting front by BFS distance from the target, so the
+        // expansion bulges toward where the player clicked
+        const distance = new Map<number, number>([[hexIndex, 0]]);
+        const queue = [hexIndex];
+        for (let q = 0; q < queue.length; q++) {
+            const h = queue[q];
+            for (const n of this.neighborsOf(h)) {
+                if (distance.has(n) || !this.isClaimable(n)) continue;
+                distance.set(n, distance.get(h)! + 1);
+                queue.push(n);
+            }
+        }
+        const frontier = hasTerritory ? queue.filter(h => this.isAdjacentTo(playerId, h)) : [hexIndex];
+
+        const expansion: ExpansionInProgress = {
+            id: this.nextExpansionId++,
+            playerId,
+            troops: troopsToSend,
+            speed: Math.min(MAX_EXPANSION_SPEED, Math.max(MIN_EXPANSION_SPEED, speed ?? defaultExpansionSpeed(troopsToSend))),
+            frontier,
+            timer: 0,
+        };
+        player.troops -= troopsToSend;
+        this.expansions.push(expansion);
+        this.emit({ type: 'expansionStarted', expansionId: expansion.id, playerId, troops: troopsToSend });
+        return true;
+    }
+
+    /** Stops an expansion and returns its unspent troops. */
+    cancelExpansion(playerId: number, expansionId: number): boolean {
+        const expansion = this.expansions.find(e => e.id === expansionId && e.playerId === playerId);
+        if (!expansion) return false;
+        this.endExpansion(expansion);
+        this.expansions = this.expansions.filter(e => e !== expansion);
+        return true;
+    }
+
+    private endExpansion(expansion: ExpansionInProgress) {
+        const player = this.players[expansion.playerId];
+        const troopsReturned = Math.max(0, Math.floor(expansion.troops));
+        if (player) player.troops += troopsReturned;
+        expansion.troops = 0;
+        // The hex it was still settling, so the view can clear its partial tint
+        const hexIndex = expansion.frontier[0] ?? -1;
+        this.emit({ type: 'expansionEnded', expansionId: expansion.id, playerId: expansion.playerId, troopsReturned, hexIndex });
+    }
+
+    /** Advances one expansion by a tick. Returns false once it is over. */
+    private stepExpansion(expansion: ExpansionInProgress): boolean {
+        // Another nation may have taken hexes off the front
+        expansion.frontier = expansion.frontier.filter(h => this.isClaimable(h));
+        if (expansion.frontier.length === 0) return false;
+
+        expansion.timer += TICK_SECONDS * expansion.speed * this.speedBonus(expansion.playerId, expansion.frontier[0]);
+        while (expansion.frontier.length > 0) {
+            const hex = expansion.frontier[0];
+            const biome = this.map.biomes[hex];
+            const needed = expansionTime(biome);
+            if (expansion.timer < needed) {
+                this.emit({ type: 'conquestProgress', hexIndex: hex, playerId: expansion.playerId, progress: expansion.timer / needed });
+                break;
+            }
+            const cost = expansionCost(biome);
+            if (expansion.troops < cost) return false;
+
+            expansion.timer -= needed;
+            expansion.troops -= cost;
+            expansion.frontier.shift();
+            this.setOwner(hex, expansion.playerId);
+            for (const n of this.neighborsOf(hex)) {
+                if (this.isClaimable(n) && !expansion.frontier.includes(n)) expansion.frontier.push(n);
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Sends troops against the nation owning `hexIndex`. The attack pushes
+     * along the whole shared border, not just the clicked hex; a second order
+     * against the same nation reinforces the running attack.
+     */
+    attack(playerId: number, hexIndex: number, troopsToSend: number): boolean {
+        const player = this.players[playerId];
+        if (!player || !this.isValidHex(hexIndex)) return false;
+        if (!player.capitalPlaced) return false; // Found the nation first
+        troopsToSend = Math.floor(troopsToSend);
+        if (troopsToSend <= 0 || troopsToSend > player.troops) return false;
+
+        const defenderId = this.centerOwner[hexIndex];
+        if (defenderId === NO_OWNER || defenderId === playerId) return false;
+        if (!this.isAdjacentTo(playerId, hexIndex)) return false; // Must border the target
+        if (this.diplomacy.isAllied(playerId, defenderId)) return false; // Break the alliance first
+
+        player.troops -= troopsToSend;
+
+        const existing = this.attacks.find(a => a.attackerId === playerId && a.defenderId === defenderId);
+        if (existing) {
+            existing.troops += troopsToSend;
+            // Push the clicked hex to the front of the line
+            existing.frontier = [hexIndex, ...existing.frontier.filter(h => h !== hexIndex)];
+            return true;
+        }
+
+        const frontier = [hexIndex];
+        this.centerOwner.forEach((o, i) => {
+            if (o === defenderId && i !== hexIndex && this.isAdjacentTo(playerId, i)) frontier.push(i);
+        });
+        const attack: AttackInProgress = {
+            id: this.nextAttackId++,
+            attackerId: playerId,
+            defenderId,
+            troops: troopsToSend,
+            frontier,
+            timer: 0,
+        };
+        this.attacks.push(attack);
+        this.emit({ type: 'attackStarted', attackId: attack.id, attackerId: playerId, defenderId, troops: troopsToSend });
+        return true;
+    }
+
+    private endAttack(attack: AttackInProgress) {
+        const attacker = this.players[attack.attackerId];
+        const troopsReturned = Math.max(0, Math.floor(attack.troops));
+        if (attacker) attacker.troops += troopsReturned;
+        attack.troops = 0;
+        this.emit({ type: 'attackEnded', attackId: attack.id, attackerId: attack.attackerId, defenderId: attack.defenderId, troopsReturned });
+    }
+
+    /** Hands a conquered hex to `playerId`; a building on it changes hands damaged. */
+    private takeHex(playerId: number, hexIndex: number) {
+        this.setOwner(hexIndex, playerId);
+        const building = this.buildingAt(hexIndex);
+        if (building) {
+            building.ownerId = playerId;
+            building.health = Math.max(0, building.health - CAPTURE_DAMAGE);
+            this.emit({ type: 'buildingCaptured', buildingId: building.id, ownerId: building.ownerId, health: building.health });
+        }
+    }
+
+    private captureHex(attack: AttackInProgress, hexIndex: number) {
+        this.takeHex(attack.attackerId, hexIndex);
+        // The front moves forward: the defender's hexes behind this one are next
+        for (const n of this.neighborsOf(hexIndex)) {
+            if (this.centerOwner[n] === attack.defenderId && !attack.frontier.includes(n)) attack.frontier.push(n);
+        }
+    }
+
+    /** Advances one attack by a tick. Returns false once it is over. */
+    private stepAttack(attack: AttackInProgress): boolean {
+        const defender = this.players[attack.defenderId];
+        attack.frontier = attack.frontier.filter(h =>
+            this.centerOwner[h] === attack.defenderId && this.isAdjacentTo(attack.attackerId, h));
+        if (!defender || attack.troops < MIN_CAPTURE_COST || attack.frontier.length === 0) return false;
+
+        attack.timer += TICK_SECONDS * this.speedBonus(attack.attackerId, attack.frontier[0]);
+        while (attack.frontier.length > 0) {
+            const hex = attack.frontier[0];
+            const biome = this.map.biomes[hex];
+            const needed = captureTime(attack.troops, biome);
+            if (attack.timer < needed) break;
+
+            const building = this.buildingAt(hex);
+            const cityHealth = building && building.type === 'city' ? building.health : null;
+            const defense = hexDefense(defender.troops, defender.territorySize, biome, cityHealth, this.fortificationAt(hex), this.map.centerRiver[hex]);
+            const attackerLoss = Math.max(MIN_CAPTURE_COST, defense * ATTACKER_LOSS_FACTOR);
+
+            if (attack.troops < attackerLoss) {
+                // The attack breaks on this hex; the survivors still bleed the defender
+                defender.troops = Math.max(0, defender.troops - attack.troops * DEFENDER_LOSS_FACTOR);
+                attack.troops = 0;
+                return false;
+            }
+
+            attack.timer -= needed;
+            attack.troops -= attackerLoss;
+            defender.troops = Math.max(0, defender.troops - defense * DEFENDER_LOSS_FACTOR);
+            attack.frontier.shift();
+            this.captureHex(attack, hex);
+        }
+        return true;
+    }
+
+    /** The player's loaded silo closest to the target, if any. */
+    private readySilo(playerId: number, hexIndex: number): Building | undefined {
+        const { centerLat, centerLng } = this.map;
+        let best: Building | undefined;
+        let bestAngle = Infinity;
+        for (const b of this.buildings) {
+            if (b.ownerId !== playerId || b.type !== 'missileSilo' || !isOperational(b) || b.cooldown > 0) continue;
+            const angle = arcAngle(centerLat[b.hexIndex], centerLng[b.hexIndex], centerLat[hexIndex], centerLng[hexIndex]);
+            if (angle < bestAngle) {
+                bestAngle = angle;
+                best = b;
+            }
+        }
+        return best;
+    }
+
+    /** Why the missile can't be launched at the hex, or null if it can. */
+    canLaunch(playerId: number, hexIndex: number, type: MissileType): string | null {
+        const player = this.players[playerId];
+        const spec = MISSILES[type];
+        if (!player || !spec || !this.isValidHex(hexIndex)) return 'Invalid order';
+        if (spec.irradiates && !this.matchSettings.nukes) return 'Nukes are off in this match';
+        if (this.centerOwner[hexIndex] === playerId) return 'Cannot target your own territory';
+        if (this.diplomacy.isAllied(playerId, this.centerOwner[hexIndex])) return 'Cannot strike an ally';
+        if (!this.readySilo(playerId, hexIndex)) return 'No loaded missile silo';
+        if (player.cash < spec.cost) return 'Not enough cash';
+        return null;
+    }
+
+    /** Fires a missile from the nearest loaded silo. It flies a great-circle arc and detonates on arrival. */
+    launchMissile(playerId: number, hexIndex: number, type: MissileType): boolean {
+        if (this.canLaunch(playerId, hexIndex, type) !== null) return false;
+        const silo = this.readySilo(playerId, hexIndex)!;
+        const { centerLat, centerLng } = this.map;
+        this.players[playerId].cash -= MISSILES[type].cost;
+        silo.cooldown = SILO_RELOAD;
+
+        const missile: MissileInFlight = {
+            id: this.nextMissileId++,
+            type,
+            ownerId: playerId,
+            siloHexIndex: silo.hexIndex,
+            targetHexIndex: hexIndex,
+            targetOwnerId: this.centerOwner[hexIndex],
+            flightTime: flightTime(arcAngle(centerLat[silo.hexIndex], centerLng[silo.hexIndex], centerLat[hexIndex], centerLng[hexIndex])),
+            launchTick: this.tick,
+            interceptChecked: false,
+        };
+        this.missiles.push(missile);
+        this.emit({ type: 'missileLaunched', missile: { ...missile } });
+        return true;
+    }
+
+    /** Advances one missile by a tick. Returns false once it has been shot down or has hit. */
+    private stepMissile(missile: MissileInFlight): boolean {
+        const elapsed = (this.tick - missile.launchTick) * TICK_SECONDS;
+
+        // SAM sites covering the target get one chance each as the missile comes down
+        if (!missile.interceptChecked && elapsed >= missile.flightTime * INTERCEPT_PHASE) {
+            missile.interceptChecked = true;
+            const defenderId = this.centerOwner[missile.targetHexIndex];
+            for (const sam of this.buildings) {
+                if (defenderId === NO_OWNER || defenderId === missile.ownerId) break;
+                if (sam.ownerId !== defenderId || sam.type !== 'sam' || !isOperational(sam) || sam.cooldown > 0) continue;
+                if (this.hexDistance(sam.hexIndex, missile.targetHexIndex, SAM_RANGE) === -1) continue;
+                sam.cooldown = SAM_RELOAD;
+                if (this.rng.next() < MISSILES[missile.type].interceptChance) {
+                    this.emit({ type: 'missileIntercepted', missileId: missile.id, samId: sam.id });
+                    return false;
+                }
+            }
+        }
+
+        if (elapsed < missile.flightTime) return true;
+        this.detonate(missile);
+        return false;
+    }
+
+    /**
+     * Applies a blast: nations lose troops in proportion to how much of their
+     * territory it covers, buildings inside it are destroyed and nuclear
+     * warheads leave the land unowned and irradiated.
+     */
+    private detonate(missile: MissileInFlight) {
+        const spec = MISSILES[missile.type];
+        const blastHexes = this.hexesWithin(missile.targetHexIndex, spec.blastRadius);
+        // Fallout goes down first, so the view repaints the blast as irradiated
+        const irradiated = spec.irradiates ? blastHexes.filter(h => !this.map.centerWater[h]) : [];
+        irradiated.forEach(h => this.fallout.set(h, FALLOUT_SECONDS));
+        this.emit({ type: 'missileImpact', missileId: missile.id, hexIndex: missile.targetHexIndex, blastHexes, irradiated: spec.irradiates });
+
+        const hitsByOwner = new Map<number, number>();
+        for (const h of blastHexes) {
+            const o = this.centerOwner[h];
+            if (o !== NO_OWNER) hitsByOwner.set(o, (hitsByOwner.get(o) ?? 0) + 1);
+        }
+        hitsByOwner.forEach((hits, ownerId) => {
+            const owner = this.players[ownerId];
+            const share = Math.min(1, spec.troopKill * hits / Math.max(1, owner.territorySize));
+            owner.troops = Math.max(0, owner.troops - owner.troops * share);
+        });
+
+        const blast = new Set(blastHexes);
+        for (const b of this.buildings) {
+            if (blast.has(b.hexIndex)) this.emit({ type: 'buildingDestroyed', buildingId: b.id });
+        }
+        this.buildings = this.buildings.filter(b => !blast.has(b.hexIndex));
+        for (const bridge of this.bridges) {
+            if (bridge.path.some(h => blast.has(h))) this.destroyBridge(bridge);
+        }
+        for (const road of this.roads) {
+            if (road.path.some(h => blast.has(h))) this.destroyRoad(road);
+        }
+
+        irradiated.forEach(h => this.setOwner(h, NO_OWNER));
+    }
+
+    /**
+     * Sends a trade ship from every loaded port to a random port of another
+     * nation it can trade with. A port with no partner waits until one appears.
+     */
+    private launchTradeShips() {
+        const { centerLat, centerLng } = this.map;
+        let ports: Building[] | null = null;
+        for (const port of this.buildings) {
+            if (port.type !== 'port' || !isOperational(port) || port.cooldown > 0) continue;
+            ports ??= this.buildings.filter(b => b.type === 'port' && isOperational(b));
+            const partners = ports.filter(b => this.diplomacy.canTrade(port.ownerId, b.ownerId));
+            if (partners.length === 0) continue;
+            const destination = this.rng.pick(partners);
+            const angle = arcAngle(centerLat[port.hexIndex], centerLng[port.hexIndex], centerLat[destination.hexIndex], centerLng[destination.hexIndex]);
+            const ship: TradeShip = {
+                id: this.nextTradeShipId++,
+                ownerId: port.ownerId,
+                partnerId: destination.ownerId,
+                fromPortId: port.id,
+                toPortId: destination.id,
+                fromHexIndex: port.hexIndex,
+                toHexIndex: destination.hexIndex,
+                cargo: cargoValue(angle),
+                voyageTime: voyageTime(angle),
+                launchTick: this.tick,
+            };
+            port.cooldown = TRADE_SHIP_INTERVAL;
+            this.tradeShips.push(ship);
+            this.emit({ type: 'tradeShipLaunched', ship: { ...ship } });
+        }
+    }
+
+    /**
+     * Advances one trade ship by a tick. Returns false once it is done: on
+     * arrival both nations are paid, unless the destination port has been
+     * lost or trade between them has been embargoed meanwhile.
+     */
+    private stepTradeShip(ship: TradeShip): boolean {
+        if ((this.tick - ship.launchTick) * TICK_SECONDS < ship.voyageTime) return true;
+        const port = this.buildings.find(b => b.id === ship.toPortId);
+        if (!port || port.ownerId !== ship.partnerId || !this.diplomacy.canTrade(ship.ownerId, ship.partnerId)) {
+            this.emit({ type: 'tradeShipLost', shipId: ship.id });
+            return false;
+        }
+        this.players[ship.ownerId].cash += ship.cargo;
+        this.players[ship.partnerId].cash += ship.cargo;
+        this.logTrade(ship);
+        this.emit({ type: 'tradeShipArrived', shipId: ship.id, ownerId: ship.ownerId, partnerId: ship.partnerId, cargo: ship.cargo });
+        return false;
+    }
+
+    private logTrade(ship: { ownerId: number; partnerId: number; cargo: number }) {
+        const since = this.tick - TRADE_WINDOW * TICK_RATE;
+        this.tradeLog = this.tradeLog.filter(entry => entry.tick > since);
+        this.tradeLog.push({ tick: this.tick, playerId: ship.ownerId, cash: ship.cargo }, { tick: this.tick, playerId: ship.partnerId, cash: ship.cargo });
+    }
+
+    /** Why a transport boat can't carry troops to the hex, or null if it can. The sea route is only searched on launch. */
+    canLaunchBoat(playerId: number, hexIndex: number, troopsToSend: number): string | null {
+        const player = this.players[playerId];
+        if (!player || !this.isValidHex(hexIndex)) return 'Invalid order';
+        if (!player.capitalPlaced) return 'Place your capital first';
+        if (!isShore(this.map, hexIndex)) return 'Boats can only land on a shore';
+        const ownerId = this.centerOwner[hexIndex];
+        if (ownerId === playerId) return 'Already your territory';
+        if (this.diplomacy.isAllied(playerId, ownerId)) return 'Cannot invade an ally';
+        if (this.fallout.has(hexIndex)) return 'The shore is irradiated';
+        if (this.boats.filter(b => b.ownerId === playerId).length >= MAX_BOATS) return 'Too many boats at sea';
+        troopsToSend = Math.floor(troopsToSend);
+        if (troopsToSend <= 0 || troopsToSend > player.troops) return 'Not enough troops';
+        return null;
+    }
+
+    /** A sea route to the hex from one of the player's shores nearest to it, if any. */
+    private boatRoute(playerId: number, hexIndex: number): number[] | null {
+        const { centerLat, centerLng } = this.map;
+        const shores: [number, number][] = [];
+        this.centerOwner.forEach((o, i) => {
+            if (o === playerId && isShore(this.map, i)) shores.push([i, arcAngle(centerLat[i], centerLng[i], centerLat[hexIndex], centerLng[hexIndex])]);
+        });
+        shores.sort((a, b) => a[1] - b[1]);
+        for (const [shore] of shores.slice(0, BOAT_LAUNCH_CANDIDATES)) {
+            const path = findSeaPath(this.map, shore, hexIndex);
+            // A route straight over land is an expansion or attack, not a boat trip
+            if (path && path.length > 2) return path;
+        }
+        return null;
+    }
+
+    /**
+     * Sends troops by sea from the player's nearest shore to land on the hex.
+     * The boat follows the shortest water route and lands when it arrives.
+     */
+    launchBoat(playerId: number, hexIndex: number, troopsToSend: number): boolean {
+        if (this.canLaunchBoat(playerId, hexIndex, troopsToSend) !== null) return false;
+        const path = this.boatRoute(playerId, hexIndex);
+        if (!path) return false;
+        const troops = Math.floor(troopsToSend);
+        this.players[playerId].troops -= troops;
+        const boat: TransportBoat = { id: this.nextBoatId++, ownerId: playerId, troops, path, launchTick: this.tick };
+        this.boats.push(boat);
+        this.emit({ type: 'boatLaunched', boat: { ...boat, path: [...path] } });
+        return true;
+    }
+
+    /** Advances one boat by a tick. Returns false once it has landed. */
+    private stepBoat(boat: TransportBoat): boolean {
+        if ((this.tick - boat.launchTick) * TICK_SECONDS * BOAT_SPEED < boat.path.length - 1) return true;
+        this.landBoat(boat);
+        return false;
+    }
+
+    /**
+     * Puts a boat's troops ashore. Unclaimed land is settled and the rest
+     * expand from the beach; an enemy beach has to be taken like any hex and
+     * the survivors press on as an attack. If the beach is ours or an ally's
+     * by now, the troops go home.
+     */
+    private landBoat(boat: TransportBoat) {
+        const hex = boat.path[boat.path.length - 1];
+        const ownerId = this.centerOwner[hex];
+        const biome = this.map.biomes[hex];
+        let troops = boat.troops;
+        let captured = false;
+        if (ownerId === NO_OWNER) {
+            if (this.isClaimable(hex) && troops >= expansionCost(biome)) {
+                troops -= expansionCost(biome);
+                this.setOwner(hex, boat.ownerId);
+                captured = true;
+            }
+        } else if (ownerId !== boat.ownerId && !this.diplomacy.isAllied(boat.ownerId, ownerId)) {
+            const defender = this.players[ownerId];
+            const building = this.buildingAt(hex);
+            const cityHealth = building && building.type === 'city' ? building.health : null;
+            const defense = hexDefense(defender.troops, defender.territorySize, biome, cityHealth, this.fortificationAt(hex), this.map.centerRiver[hex]);
+            const attackerLoss = Math.max(MIN_CAPTURE_COST, defense * ATTACKER_LOSS_FACTOR);
+            if (troops >= attackerLoss) {
+                troops -= attackerLoss;
+                defender.troops = Math.max(0, defender.troops - defense * DEFENDER_LOSS_FACTOR);
+                this.takeHex(boat.ownerId, hex);
+                captured = true;
+            } else {
+                defender.troops = Math.max(0, defender.troops - troops * DEFENDER_LOSS_FACTOR);
+                troops = 0;
+            }
+        }
+        this.emit({ type: 'boatLanded', boatId: boat.id, hexIndex: hex, captured });
+
+        troops = Math.floor(troops);
+        if (troops <= 0) return;
+        this.players[boat.ownerId].troops += troops;
+        if (!captured) return;
+        // Press on from the beachhead with whatever is left
+        const neighbors = this.neighborsOf(hex);
+        const enemyHex = ownerId === NO_OWNER ? undefined : neighbors.find(n => this.centerOwner[n] === ownerId);
+        if (enemyHex !== undefined) {
+            this.attack(boat.ownerId, enemyHex, troops);
+            return;
+        }
+        const openHex = neighbors.find(n => this.isClaimable(n));
+        if (openHex !== undefined) this.startExpansion(boat.ownerId, openHex, troops);
+    }
+
+    /** Why a warship can't be built at the hex, or null if it can. */
+    canBuildWarship(playerId: number, hexIndex: number): string | null {
+        const player = this.players[playerId];
+        if (!player || !this.isValidHex(hexIndex)) return 'Invalid order';
+        const port = this.buildingAt(hexIndex);
+        if (!port || port.type !== 'port' || port.ownerId !== playerId) return 'Warships are built at your ports';
+        if (!isOperational(port)) return 'The port is still being built';
+        if (!this.map.centerNeighbors[hexIndex].some(n => this.map.centerWater[n])) return 'No open water next to the port';
+        if (this.warships.filter(w => w.ownerId === playerId && w.homeHexIndex === hexIndex).length >= WARSHIPS_PER_PORT) return 'This port has all the warships it can keep';
+        if (player.cash < WARSHIP_COST) return 'Not enough cash';
+        return null;
+    }
+
+    /** Launches a warship from a port. It patrols the waters around the port and fires on hostile ships. */
+    buildWarship(playerId: number, hexIndex: number): boolean {
+        if (this.canBuildWarship(playerId, hexIndex) !== null) return false;
+        this.players[playerId].cash -= WARSHIP_COST;
+        const start = this.map.centerNeighbors[hexIndex].find(n => this.map.centerWater[n])!;
+        const warship: Warship = {
+            id: this.nextWarshipId++,
+            ownerId: playerId,
+            homeHexIndex: hexIndex,
+            health: MAX_HEALTH,
+            cooldown: 0,
+            path: [start],
+            legStartTick: this.tick,
+        };
+        this.warships.push(warship);
+        this.emit({ type: 'warshipBuilt', warship: { ...warship, path: [...warship.path] } });
+        return true;
+    }
+
+    /** Position along its leg, in path steps; replicas derive it from the tick the same way. */
+    private warshipStep(ship: Warship): number {
+        return pathPosition(ship.path, (this.tick - ship.legStartTick) * TICK_SECONDS, WARSHIP_SPEED);
+    }
+
+    /** Where a boat, warship or trade ship is now, as [lat, lng]. */
+    private vesselPosition(vessel: TransportBoat | Warship | TradeShip): [number, number] {
+        const { centerLat, centerLng } = this.map;
+        if ('voyageTime' in vessel) {
+            const f = Math.min(1, (this.tick - vessel.launchTick) * TICK_SECONDS / vessel.voyageTime);
+            return greatCirclePoint(centerLat[vessel.fromHexIndex], centerLng[vessel.fromHexIndex], centerLat[vessel.toHexIndex], centerLng[vessel.toHexIndex], f);
+        }
+        const t = 'legStartTick' in vessel
+            ? this.warshipStep(vessel)
+            : pathPosition(vessel.path, (this.tick - vessel.launchTick) * TICK_SECONDS, BOAT_SPEED);
+        const hex = hexAlongPath(vessel.path, t);
+        return [centerLat[hex], centerLng[hex]];
+    }
+
+    /** Advances one warship by a tick: it fires if it can, and sets a new course at the end of a leg. */
+    private stepWarship(ship: Warship) {
+        if (ship.cooldown > 0) ship.cooldown = Math.max(0, ship.cooldown - TICK_SECONDS);
+        if (ship.cooldown <= 0) this.warshipFire(ship);
+        const t = this.warshipStep(ship);
+        if (t >= ship.path.length - 1) this.nextPatrolLeg(ship, hexAlongPath(ship.path, t));
+    }
+
+    /** Picks a random spot in the home port's waters and sets course for it. */
+    private nextPatrolLeg(ship: Warship, hex: number) {
+        const waters = waterWithin(this.map, ship.homeHexIndex, WARSHIP_PATROL_RADIUS);
+        if (waters.length === 0) return;
+        const path = findSeaPath(this.map, hex, this.rng.pick(waters));
+        if (!path || path.length < 2) return;
+        ship.path = path;
+        ship.legStartTick = this.tick;
+        this.emit({ type: 'warshipMoved', warshipId: ship.id, path: [...path], legStartTick: ship.legStartTick });
+    }
+
+    /**
+     * Fires at the first hostile vessel in range: invasion boats of any
+     * nation we are not allied with, then their warships, then trade ships
+     * of nations we embargo. Boats and trade ships sink in one hit.
+     */
+    private warshipFire(ship: Warship) {
+        const [lat, lng] = this.vesselPosition(ship);
+        const inRange = (vessel: TransportBoat | Warship | TradeShip) => {
+            const [vLat, vLng] = this.vesselPosition(vessel);
+            return arcAngle(lat, lng, vLat, vLng) <= WARSHIP_RANGE;
+        };
+        const hostile = (ownerId: number) => ownerId !== ship.ownerId && !this.diplomacy.isAllied(ship.ownerId, ownerId);
+        const fire = (target: NavalTarget, targetId: number) => {
+            ship.cooldown = WARSHIP_RELOAD;
+            this.emit({ type: 'warshipFired', warshipId: ship.id, target, targetId });
+        };
+
+        const boat = this.boats.find(b => hostile(b.ownerId) && inRange(b));
+        if (boat) {
+            fire('boat', boat.id);
+            this.boats = this.boats.filter(b => b !== boat);
+            this.emit({ type: 'boatSunk', boatId: boat.id, warshipId: ship.id });
+            return;
+        }
+        const enemy = this.warships.find(w => w.health > 0 && hostile(w.ownerId) && inRange(w));
+        if (enemy) {
+            fire('warship', enemy.id);
+            enemy.health -= WARSHIP_DAMAGE;
+            if (enemy.health <= 0) this.emit({ type: 'warshipSunk', warshipId: enemy.id });
+            else this.emit({ type: 'warshipDamaged', warshipId: enemy.id, health: enemy.health });
+            return;
+        }
+        const trader = this.tradeShips.find(s => (this.diplomacy.hasEmbargo(ship.ownerId, s.ownerId) || this.diplomacy.hasEmbargo(ship.ownerId, s.partnerId)) && inRange(s));
+        if (trader) {
+            fire('tradeShip', trader.id);
+            this.tradeShips = this.tradeShips.filter(s => s !== trader);
+            this.emit({ type: 'tradeShipLost', shipId: trader.id });
+        }
+    }
+
+    /**
+     * The shortest strait from the player's land to the hex: their shore,
+     * up to MAX_BRIDGE_SPAN water hexes, then the hex. Null if there is none.
+     */
+    private bridgeRoute(playerId: number, hexIndex: number): number[] | null {
+        const { centerNeighbors, centerWater } = this.map;
+        const parent = new Map<number, number>([[hexIndex, -1]]);
+        let ring = [hexIndex];
+        for (let span = 1; span <= MAX_BRIDGE_SPAN; span++) {
+            const next: number[] = [];
+            for (const h of ring) {
+                for (const n of centerNeighbors[h]) {
+                    if (parent.has(n) || !centerWater[n]) continue;
+                    parent.set(n, h);
+                    next.push(n);
+                }
+            }
+            for (const w of next) {
+                const shore = centerNeighbors[w].find(n => !centerWater[n] && this.centerOwner[n] === playerId);
+                if (shore === undefined) continue;
+                const path = [shore];
+                for (let h = w; h !== -1; h = parent.get(h)!) path.push(h);
+                return path;
+            }
+            ring = next;
+        }
+        return null;
+    }
+
+    /** Why a bridge can't be built to the hex, or null if it can. */
+    canBuildBridge(playerId: number, hexIndex: number): string | null {
+        const player = this.players[playerId];
+        if (!player || !this.isValidHex(hexIndex)) return 'Invalid order';
+        if (!player.capitalPlaced) return 'Place your capital first';
+        if (this.map.centerWater[hexIndex]) return 'Pick the shore to bridge to';
+        if (this.centerOwner[hexIndex] === playerId) return 'Already your territory';
+        if (this.isAdjacentTo(playerId, hexIndex)) return 'Already reachable over land';
+        if (this.bridges.some(b => b.path[b.path.length - 1] === hexIndex || b.path[0] === hexIndex)) return 'Already bridged';
+        if (!this.bridgeRoute(playerId, hexIndex)) return `No strait of up to ${MAX_BRIDGE_SPAN} water hexes from your land`;
+        if (player.cash < BRIDGE_COST) return 'Not enough cash';
+        return null;
+    }
+
+    /** Spans the narrowest strait between the player's land and the hex. Once built, anyone can cross it. */
+    buildBridge(playerId: number, hexIndex: number): boolean {
+        if (this.canBuildBridge(playerId, hexIndex) !== null) return false;
+        this.players[playerId].cash -= BRIDGE_COST;
+        const bridge: Bridge = {
+            id: this.nextBridgeId++,
+            ownerId: playerId,
+            path: this.bridgeRoute(playerId, hexIndex)!,
+            constructionLeft: BRIDGE_BUILD_TIME,
+        };
+        this.bridges.push(bridge);
+        this.emit({ type: 'bridgeBuilt', bridge: { ...bridge, path: [...bridge.path] } });
+        return true;
+    }
+
+    private rebuildLinks() {
+        this.links.clear();
+        for (const b of this.bridges) {
+            if (b.constructionLeft > 0) continue;
+            const [a, z] = [b.path[0], b.path[b.path.length - 1]];
+            this.links.set(a, [...(this.links.get(a) ?? []), z]);
+            this.links.set(z, [...(this.links.get(z) ?? []), a]);
+        }
+    }
+
+    private isConnected(a: number, b: number): boolean {
+        return this.roads.some(r => {
+            const [start, end] = [r.path[0], r.path[r.path.length - 1]];
+            return (start === a && end === b) || (start === b && end === a);
+        });
+    }
+
+    /** The player's nearest finished city to the one on the hex that no road joins to it yet. */
+    private roadPartner(playerId: number, hexIndex: number): Building | undefined {
+        const { centerLat, centerLng } = this.map;
+        let best: Building | undefined;
+        let bestAngle = Infinity;
+        for (const b of this.buildings) {
+            if (b.ownerId !== playerId || b.type !== 'city' || !isOperational(b) || b.hexIndex === hexIndex) continue;
+            if (this.isConnected(hexIndex, b.hexIndex)) continue;
+            const angle = arcAngle(centerLat[hexIndex], centerLng[hexIndex], centerLat[b.hexIndex], centerLng[b.hexIndex]);
+            if (angle < bestAngle) {
+                bestAngle = angle;
+                best = b;
+            }
+        }
+        return best;
+    }
+
+    /** Why a road or railroad can't start at the hex, or null if it can. The route itself is only searched when building. */
+    canBuildRoad(playerId: number, hexIndex: number, type: RoadType): string | null {
+        const player = this.players[playerId];
+        const spec = ROADS[type];
+        if (!player || !spec || !this.isValidHex(hexIndex)) return 'Invalid order';
+        const city = this.buildingAt(hexIndex);
+        if (!city || city.type !== 'city' || city.ownerId !== playerId) return `${spec.name}s start at one of your cities`;
+        if (!isOperational(city)) return 'The city is still being built';
+        if (!this.roadPartner(playerId, hexIndex)) return 'No other city left to connect';
+        if (player.cash < spec.cost) return 'Not enough cash';
+        return null;
+    }
+
+    /** Joins the city on the hex to the player's nearest unconnected city, over the player's own land. */
+    buildRoad(playerId: number, hexIndex: number, type: RoadType): boolean {
+        if (this.canBuildRoad(playerId, hexIndex, type) !== null) return false;
+        const partner = this.roadPartner(playerId, hexIndex)!;
+        const path = findPath(this.map, hexIndex, partner.hexIndex, h => this.centerOwner[h] === playerId && !this.map.centerWater[h]);
+        if (!path || path.length > MAX_ROAD_LENGTH) return false;
+        this.players[playerId].cash -= ROADS[type].cost;
+        const road: Road = { id: this.nextRoadId++, type, ownerId: playerId, path, constructionLeft: ROADS[type].buildTime };
+        this.roads.push(road);
+        this.emit({ type: 'roadBuilt', road: { ...road, path: [...path] } });
+        return true;
+    }
+
+    private rebuildRoadBonus() {
+        this.roadBonus.clear();
+        for (const r of this.roads) {
+            if (r.constructionLeft > 0) continue;
+            let hexes = this.roadBonus.get(r.ownerId);
+            if (!hexes) this.roadBonus.set(r.ownerId, hexes = new Map());
+            const bonus = ROADS[r.type].speedBonus;
+            for (const h of r.path) {
+                for (const n of [h, ...this.map.centerNeighbors[h]]) hexes.set(n, Math.max(bonus, hexes.get(n) ?? 1));
+            }
+        }
+    }
+
+    /** How much faster the player's fronts advance on a hex, thanks to roads next to it. */
+    private speedBonus(playerId: number, hexIndex: number): number {
+        return this.roadBonus.get(playerId)?.get(hexIndex) ?? 1;
+    }
+
+    private destroyBridge(bridge: Bridge) {
+        this.bridges = this.bridges.filter(b => b !== bridge);
+        this.emit({ type: 'bridgeDestroyed', bridgeId: bridge.id });
+        this.rebuildLinks();
+    }
+
+    private destroyRoad(road: Road) {
+        this.roads = this.roads.filter(r => r !== road);
+        this.emit({ type: 'roadDestroyed', roadId: road.id });
+        this.rebuildRoadBonus();
+    }
+
+    /** A nation that loses a hex loses the bridges ending there and the roads running over it. */
+    private cutInfrastructure(hexIndex: number, previousOwnerId: number) {
+        for (const bridge of this.bridges) {
+            const ends = [bridge.path[0], bridge.path[bridge.path.length - 1]];
+            if (bridge.ownerId === previousOwnerId && ends.includes(hexIndex)) this.destroyBridge(bridge);
+        }
+        for (const road of this.roads) {
+            if (road.ownerId === previousOwnerId && road.path.includes(hexIndex)) this.destroyRoad(road);
+        }
+    }
+
+    /**
+     * Handles a diplomatic order from `playerId` toward `targetId`. A request
+     * to a nation that has already asked us is treated as accepting; breaking
+     * an alliance marks the breaker as a traitor for a while.
+     */
+    diplomaticAction(playerId: number, targetId: number, action: DiplomacyAction): boolean {
+        if (!this.players[playerId] || !this.players[targetId] || playerId === targetId) return false;
+        const d = this.diplomacy;
+        switch (action) {
+            case 'request': {
+                if (d.isAllied(playerId, targetId) || d.findRequest(playerId, targetId)) return false;
+                if (d.findRequest(targetId, playerId)) return this.acceptAlliance(playerId, targetId);
+                const expiresTick = this.tick + ALLIANCE_REQUEST_SECONDS * TICK_RATE;
+                d.addRequest({ fromId: playerId, toId: targetId, expiresTick });
+                this.emit({ type: 'allianceRequested', fromId: playerId, toId: targetId, expiresTick });
+                return true;
+            }
+            case 'accept':
+                return this.acceptAlliance(playerId, targetId);
+            case 'reject':
+                if (!d.findRequest(targetId, playerId)) return false;
+                d.removeRequest(targetId, playerId);
+                this.emit({ type: 'allianceRequestEnded', fromId: targetId, toId: playerId });
+                return true;
+            case 'break': {
+                if (!d.isAllied(playerId, targetId) || this.sameTeam(playerId, targetId)) return false;
+                d.setAllied(playerId, targetId, false);
+                const traitorUntil = this.tick + TRAITOR_SECONDS * TICK_RATE;
+                d.markTraitor(playerId, traitorUntil);
+                this.emit({ type: 'allianceBroken', breakerId: playerId, otherId: targetId, traitorUntil });
+                return true;
+            }
+            case 'embargo':
+            case 'liftEmbargo': {
+                const active = action === 'embargo';
+                if (d.hasEmbargo(playerId, targetId) === active) return false;
+                d.setEmbargo(playerId, targetId, active);
+                this.emit({ type: 'embargoChanged', fromId: playerId, toId: targetId, active });
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /** `playerId` accepts the pending request from `fromId`; running attacks between them stop. */
+    private acceptAlliance(playerId: number, fromId: number): boolean {
+        const d = this.diplomacy;
+        if (!d.findRequest(fromId, playerId)) return false;
+        for (const [a, b] of [[fromId, playerId], [playerId, fromId]]) {
+            if (!d.findRequest(a, b)) continue;
+            d.removeRequest(a, b);
+            this.emit({ type: 'allianceRequestEnded', fromId: a, toId: b });
+        }
+        d.setAllied(playerId, fromId, true);
+        this.emit({ type: 'allianceFormed', a: fromId, b: playerId });
+        for (const attack of this.attacks) {
+            const between = (attack.attackerId === playerId && attack.defenderId === fromId)
+                || (attack.attackerId === fromId && attack.defenderId === playerId);
+            if (between) this.endAttack(attack);
+        }
+        this.attacks = this.attacks.filter(a => a.troops > 0);
+        return true;
+    }
+
+    /** Advances the match by exactly one tick (TICK_SECONDS of game time). */
+    step() {
+        // A finished match stays on the board as it ended
+        if (this.outcome) return;
+        this.tick++;
+
+        for (const controller of this.controllers) controller.update(this);
+
+        for (const expansion of this.expansions) {
+            if (!this.stepExpansion(expansion)) this.endExpansion(expansion);
+        }
+        this.expansions = this.expansions.filter(e => e.troops > 0);
+
+        for (const attack of this.attacks) {
+            if (!this.stepAttack(attack)) this.endAttack(attack);
+        }
+        this.attacks = this.attacks.filter(a => a.troops > 0);
+
+        for (const r of this.diplomacy.expireRequests(this.tick)) {
+            this.emit({ type: 'allianceRequestEnded', fromId: r.fromId, toId: r.toId });
+        }
+
+        const finished = new Set<MissileInFlight>();
+        for (const missile of this.missiles) {
+            if (!this.stepMissile(missile)) finished.add(missile);
+        }
+        this.missiles = this.missiles.filter(m => !finished.has(m));
+
+        for (const b of this.buildings) {
+            if (b.cooldown > 0) b.cooldown = Math.max(0, b.cooldown - TICK_SECONDS);
+            if (b.constructionLeft <= 0) continue;
+            b.constructionLeft -= TICK_SECONDS;
+            if (b.constructionLeft <= 0) {
+                b.constructionLeft = 0;
+                this.emit({ type: 'buildingCompleted', buildingId: b.id });
+            }
+        }
+
+        for (const bridge of this.bridges) {
+            if (bridge.constructionLeft <= 0) continue;
+            bridge.constructionLeft -= TICK_SECONDS;
+            if (bridge.constructionLeft <= 0) {
+                bridge.constructionLeft = 0;
+                this.rebuildLinks();
+                this.emit({ type: 'bridgeCompleted', bridgeId: bridge.id });
+            }
+        }
+        for (const road of this.roads) {
+            if (road.constructionLeft <= 0) continue;
+            road.constructionLeft -= TICK_SECONDS;
+            if (road.constructionLeft <= 0) {
+                road.constructionLeft = 0;
+                this.rebuildRoadBonus();
+                this.emit({ type: 'roadCompleted', roadId: road.id });
+            }
+        }
+
+        this.launchTradeShips();
+        const docked = new Set<TradeShip>();
+        for (const ship of this.tradeShips) {
+            if (!this.stepTradeShip(ship)) docked.add(ship);
+        }
+        this.tradeShips = this.tradeShips.filter(s => !docked.has(s));
+
+        const landed = new Set<TransportBoat>();
+        for (const boat of this.boats) {
+            if (!this.stepBoat(boat)) landed.add(boat);
+        }
+        this.boats = this.boats.filter(b => !landed.has(b));
+
+        for (const ship of this.warships) {
+            if (ship.health > 0) this.stepWarship(ship);
+        }
+        this.warships = this.warships.filter(w => w.health > 0);
+
+        // Troop generation and income: once per second of game time
+        if (this.active) {
+            this.troopTimer++;
+            if (this.troopTimer >= TICK_RATE) {
+                for (const player of this.players) {
+                    // A nation only grows and earns once it has a capital
+                    if (!player.capitalPlaced) continue;
+                    // Troops regrow toward the cap, fastest at half of it, and
+                    // faster or slower depending on where the nation puts its focus
+                    const cap = this.maxTroops(player.id);
+                    const growth = troopGrowth(player.troops, cap, this.buildingTotal(player.id, 'troopGrowth')) * focusMultipliers(player.troopFocus).troops;
+                    if (player.troops < cap) player.troops = Math.min(cap, player.troops + Math.max(1, Math.round(growth)));
+                    // A big army can cost more than the nation earns; cash never goes below zero
+                    player.cash = Math.max(0, player.cash + this.incomePerSecond(player.id));
+                }
+                const cleared: number[] = [];
+                this.fallout.forEach((left, h) => {
+                    if (left <= 1) cleared.push(h);
+                    else this.fallout.set(h, left - 1);
+                });
+                if (cleared.length > 0) {
+                    cleared.forEach(h => this.fallout.delete(h));
+                    this.emit({ type: 'falloutCleared', hexIndices: cleared });
+                }
+                this.troopTimer = 0;
+                this.checkVictory();
+            }
+        }
+    }
+
+    /** Seconds until the time limit ends the match, or null without one. */
+    timeLeft(): number | null {
+        if (this.matchSettings.timeLimit <= 0) return null;
+        return Math.max(0, this.matchSettings.timeLimit * 60 - this.tick * TICK_SECONDS);
+    }
+
+    /**
+     * Ends the match if a side has won: the last one with land left, one that
+     * holds the required share of the land, or the best score once time runs
+     * out. Sides are teams, or single nations without teams.
+     */
+    private checkVictory() {
+        const sides = new Map<number, Player[]>();
+        for (const p of this.players) {
+            if (!p.capitalPlaced) continue;
+            const team = teamOf(this.matchSettings, p.id);
+            sides.set(team, [...(sides.get(team) ?? []), p]);
+        }
+        const land = (side: Player[]) => side.reduce((sum, p) => sum + p.territorySize, 0);
+        const alive = [...sides.values()].filter(side => land(side) > 0);
+
+        if (sides.size > 1 && alive.length === 1) {
+            this.endMatch('lastStanding', alive[0]);
+            return;
+        }
+        const dominant = alive.find(side => land(side) >= this.matchSettings.dominationShare * this.landCount);
+        if (dominant) {
+            this.endMatch('domination', dominant);
+            return;
+        }
+        if (this.timeLeft() === 0 && alive.length > 0) {
+            const standings = this.standings();
+            const score = (side: Player[]) => side.reduce((sum, p) => sum + (standings.find(s => s.id === p.id)?.score ?? 0), 0);
+            this.endMatch('timeLimit', alive.reduce((best, side) => (score(side) > score(best) ? side : best)));
+        }
+    }
+
+    /** How every nation that placed a capital stands, best score first. */
+    standings(): MatchStanding[] {
+        return this.players
+            .filter(p => p.capitalPlaced)
+            .map(p => {
+                const buildings = this.buildings.filter(b => b.ownerId === p.id && isOperational(b)).length;
+                return {
+                    id: p.id,
+                    name: p.name,
+                    color: p.color,
+                    team: teamOf(this.matchSettings, p.id),
+                    territory: p.territorySize,
+                    buildings,
+                    troops: Math.floor(p.troops),
+                    score: matchScore(p.territorySize, buildings, p.troops),
+                };
+            })
+            .sort((a, b) => b.score - a.score);
+    }
+
+    private endMatch(reason: VictoryReason, winners: Player[]) {
+        this.outcome = { reason, winners: winners.map(p => p.id), tick: this.tick, standings: this.standings() };
+        this.active = false;
+        this.emit({ type: 'matchEnded', outcome: this.outcome });
+    }
+
+    getSnapshot(): SimSnapshot {
+        const owned: [number, number][] = [];
+        this.centerOwner.forEach((o, i) => { if (o !== NO_OWNER) owned.push([i, o]); });
+        return {
+            tick: this.tick,
+            players: this.players.map(p => ({ ...p })),
+            owned,
+            buildings: this.buildings.map(b => ({ ...b })),
+            missiles: this.missiles.map(m => ({ ...m })),
+            tradeShips: this.tradeShips.map(s => ({ ...s })),
+            boats: this.boats.map(b => ({ ...b, path: [...b.path] })),
+            warships: this.warships.map(w => ({ ...w, path: [...w.path] })),
+            bridges: this.bridges.map(b => ({ ...b, path: [...b.path] })),
+            roads: this.roads.map(r => ({ ...r, path: [...r.path] })),
+            fallout: Array.from(this.fallout.entries()),
+            diplomacy: this.diplomacy.getState(),
+            matchSettings: { ...this.matchSettings },
+            outcome: this.outcome,
+        };
+    }
+
+    getSaveState(): SimSaveState {
+        return {
+            ...this.getSnapshot(),
+            seed: this.seed,
+            rngState: this.rng.getState(),
+            active: this.active,
+            troopTimer: this.troopTimer,
+            expansions: this.expansions.map(e => ({ ...e, frontier: [...e.frontier] })),
+            attacks: this.attacks.map(a => ({ ...a, frontier: [...a.frontier] })),
+            nextBuildingId: this.nextBuildingId,
+            nextExpansionId: this.nextExpansionId,
+            nextAttackId: this.nextAttackId,
+            nextMissileId: this.nextMissileId,
+            nextTradeShipId: this.nextTradeShipId,
+            nextBoatId: this.nextBoatId,
+            nextWarshipId: this.nextWarshipId,
+            nextBridgeId: this.nextBridgeId,
+            nextRoadId: this.nextRoadId,
+        };
+    }
+
+    /** Restores a saved match, in-flight expansions and attacks included. Controllers are not saved here. */
+    loadSaveState(state: SimSaveState) {
+        this.loadSnapshot(state);
+        this.seed = state.seed;
+        this.rng.setState(state.rngState);
+        this.active = state.active;
+        this.troopTimer = state.troopTimer;
+        this.expansions = state.expansions.map(e => ({ ...e, frontier: [...e.frontier] }));
+        this.attacks = state.attacks.map(a => ({ ...a, frontier: [...a.frontier] }));
+        this.nextBuildingId = state.nextBuildingId;
+        this.nextExpansionId = state.nextExpansionId;
+        this.nextAttackId = state.nextAttackId;
+        this.nextMissileId = state.nextMissileId;
+        this.nextTradeShipId = state.nextTradeShipId;
+        this.nextBoatId = state.nextBoatId;
+        this.nextWarshipId = state.nextWarshipId;
+        this.nextBridgeId = state.nextBridgeId;
+        this.nextRoadId = state.nextRoadId;
+    }
+
+    // Replica mode: a client connected to a server never calls step(); it
+    // loads the server snapshot and then mirrors each ticked event.
+
+    loadSnapshot(snapshot: SimSnapshot) {
+        this.tick = snapshot.tick;
+        this.players = snapshot.players.map(p => ({ ...p }));
+        this.centerOwner.fill(NO_OWNER);
+        snapshot.owned.forEach(([i, o]) => { this.centerOwner[i] = o; });
+        this.buildings = snapshot.buildings.map(b => ({ ...b }));
+        this.missiles = snapshot.missiles.map(m => ({ ...m }));
+        this.tradeShips = snapshot.tradeShips.map(s => ({ ...s }));
+        this.tradeLog = [];
+        this.boats = snapshot.boats.map(b => ({ ...b, path: [...b.path] }));
+        this.warships = snapshot.warships.map(w => ({ ...w, path: [...w.path] }));
+        this.bridges = snapshot.bridges.map(b => ({ ...b, path: [...b.path] }));
+        this.roads = snapshot.roads.map(r => ({ ...r, path: [...r.path] }));
+        this.rebuildLinks();
+        this.rebuildRoadBonus();
+        this.fallout = new Map(snapshot.fallout);
+        this.diplomacy.setState(snapshot.diplomacy);
+        this.matchSettings = { ...snapshot.matchSettings };
+        this.outcome = snapshot.outcome;
+        this.expansions = [];
+        this.attacks = [];
+    }
+
+    applyEvent(event: SimEvent) {
+        switch (event.type) {
+            case 'playerAdded':
+                this.players[event.player.id] = { ...event.player };
+                break;
+            case 'hexOwned':
+                this.centerOwner[event.hexIndex] = event.ownerId;
+                break;
+            case 'buildingPlaced': {
+                const { building } = event;
+                this.buildings.push({ ...building });
+                if (building.isCapital && this.players[building.ownerId]) this.players[building.ownerId].capitalPlaced = true;
+                break;
+            }
+            case 'buildingCompleted': {
+                const building = this.buildings.find(b => b.id === event.buildingId);
+                if (building) building.constructionLeft = 0;
+                break;
+            }
+            case 'buildingCaptured': {
+                const building = this.buildings.find(b => b.id === event.buildingId);
+                if (building) {
+                    building.ownerId = event.ownerId;
+                    building.health = event.health;
+                }
+                break;
+            }
+            case 'buildingDestroyed':
+                this.buildings = this.buildings.filter(b => b.id !== event.buildingId);
+                break;
+            case 'missileLaunched':
+                this.missiles.push({ ...event.missile });
+                break;
+            case 'missileIntercepted':
+                this.missiles = this.missiles.filter(m => m.id !== event.missileId);
+                break;
+            case 'missileImpact':
+                this.missiles = this.missiles.filter(m => m.id !== event.missileId);
+                if (event.irradiated) {
+                    event.blastHexes.forEach(h => { if (!this.map.centerWater[h]) this.fallout.set(h, FALLOUT_SECONDS); });
+                }
+                break;
+            case 'falloutCleared':
+                event.hexIndices.forEach(h => this.fallout.delete(h));
+                break;
+            case 'allianceRequested':
+                this.diplomacy.addRequest({ fromId: event.fromId, toId: event.toId, expiresTick: event.expiresTick });
+                break;
+            case 'allianceRequestEnded':
+                this.diplomacy.removeRequest(event.fromId, event.toId);
+                break;
+            case 'allianceFormed':
+                this.diplomacy.setAllied(event.a, event.b, true);
+                break;
+            case 'allianceBroken':
+                this.diplomacy.setAllied(event.breakerId, event.otherId, false);
+                this.diplomacy.markTraitor(event.breakerId, event.traitorUntil);
+                break;
+            case 'embargoChanged':
+                this.diplomacy.setEmbargo(event.fromId, event.toId, event.active);
+                break;
+            case 'troopFocusChanged':
+                if (this.players[event.playerId]) this.players[event.playerId].troopFocus = event.focus;
+                break;
+            case 'tradeShipLaunched':
+                this.tradeShips.push({ ...event.ship });
+                break;
+            case 'tradeShipArrived':
+                this.tradeShips = this.tradeShips.filter(s => s.id !== event.shipId);
+                this.logTrade(event);
+                break;
+            case 'tradeShipLost':
+                this.tradeShips = this.tradeShips.filter(s => s.id !== event.shipId);
+                break;
+            case 'boatLaunched':
+                this.boats.push({ ...event.boat, path: [...event.boat.path] });
+                break;
+            case 'boatLanded':
+            case 'boatSunk':
+                this.boats = this.boats.filter(b => b.id !== event.boatId);
+                break;
+            case 'warshipBuilt':
+                this.warships.push({ ...event.warship, path: [...event.warship.path] });
+                break;
+            case 'warshipMoved': {
+                const ship = this.warships.find(w => w.id === event.warshipId);
+                if (ship) {
+                    ship.path = [...event.path];
+                    ship.legStartTick = event.legStartTick;
+                }
+                break;
+            }
+            case 'warshipDamaged': {
+                const ship = this.warships.find(w => w.id === event.warshipId);
+                if (ship) ship.health = event.health;
+                break;
+            }
+            case 'warshipSunk':
+                this.warships = this.warships.filter(w => w.id !== event.warshipId);
+                break;
+            case 'bridgeBuilt':
+                this.bridges.push({ ...event.bridge, path: [...event.bridge.path] });
+                break;
+            case 'bridgeCompleted': {
+                const bridge = this.bridges.find(b => b.id === event.bridgeId);
+                if (bridge) bridge.constructionLeft = 0;
+                this.rebuildLinks();
+                break;
+            }
+            case 'bridgeDestroyed':
+                this.bridges = this.bridges.filter(b => b.id !== event.bridgeId);
+                this.rebuildLinks();
+                break;
+            case 'roadBuilt':
+                this.roads.push({ ...event.road, path: [...event.road.path] });
+                break;
+            case 'roadCompleted': {
+                const road = this.roads.find(r => r.id === event.roadId);
+                if (road) road.constructionLeft = 0;
+                this.rebuildRoadBonus();
+                break;
+            }
+            case 'roadDestroyed':
+                this.roads = this.roads.filter(r => r.id !== event.roadId);
+                this.rebuildRoadBonus();
+                break;
+            case 'matchEnded':
+                this.outcome = event.outcome;
+                this.active = false;
+                break;
+            // Replicas only track which expansions exist, so the HUD can list and cancel them
+            case 'expansionStarted':
+                this.expansions.push({ id: event.expansionId, playerId: event.playerId, troops: event.troops, speed: 0, frontier: [], timer: 0 });
+                break;
+            case 'expansionEnded':
+                this.expansions = this.expansions.filter(e => e.id !== event.expansionId);
+                break;
+            case 'conquestProgress':
+            case 'warshipFired':
+            case 'attackStarted':
+            case 'attackEnded':
+                break;
+        }
+        this.emit(event);
+    }
+
+    applyStats(stats: PlayerStats[]) {
+        for (const s of stats) {
+            const player = this.players[s.id];
+            if (!player) continue;
+            player.troops = s.troops;
+            player.cash = s.cash;
+            player.territorySize = s.territorySize;
+        }
+    }
+
+    /** Runs the simulation forward a number of ticks, e.g. for headless matches. */
+    run(ticks: number) {
+        for (let i = 0; i < ticks; i++) this.step();
+    }
+}
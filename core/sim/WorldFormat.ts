@@ -0,0 +1,146 @@
+import * as h3 from 'h3-js';
+import { BIOMES, BIOME_TYPES } from './Biomes';
+import { latLngToVector3 } from './generateWorldData';
+import type { Biome, WorldData } from './types';
+import type { WorldSettings } from './WorldSettings';
+
+// Compact binary form of WorldData, for the browser's world cache and for
+// prebaked worlds in public/worlds. Only what can't be cheaply rederived is
+// stored: positions come back from the H3 cells, water and river flags from
+// the biomes and river courses. Typed arrays are written in the platform's
+// byte order, which is little-endian everywhere the game runs.
+//
+// Layout: a 40-byte header, then these sections in order, each padded to
+// four bytes:
+//   hex ids         u32 × 2n   (H3 index as lower, upper halves)
+//   elevations      f32 × n
+//   neighbor starts u32 × (n + 1), neighbors u32   (CSR adjacency)
+//   river starts    u32 × (rivers + 1), river hexes u32
+//   regions         i16 × n
+//   biomes          u8 × n     (index into BIOME_TYPES)
+//   region names    UTF-8 JSON array
+
+/** 'SKWD' read as a little-endian u32. */
+const MAGIC = 0x44574b53;
+export const WORLD_FORMAT_VERSION = 1;
+/** Bump when generation changes, so cached and prebaked worlds built by older code are ignored. */
+export const WORLD_CACHE_VERSION = 11;
+const HEADER_BYTES = 40;
+
+/** Cache key, and prebaked file name, for a world; every generation setting is part of it. */
+export function worldCacheKey(s: WorldSettings): string {
+    const prefix = `world-v${WORLD_CACHE_VERSION}-r${s.resolution}`;
+    if (s.preset === 'earth') return `${prefix}-earth`;
+    return `${prefix}-${s.seed}-${s.seaLevel}-${s.continents}-${s.mountainFrequency}`;
+}
+
+/** Byte offset of every section, and the total size. */
+function layout(n: number, neighborTotal: number, riverCount: number, riverTotal: number, nameBytes: number): { offsets: number[], size: number } {
+    const sizes = [8 * n, 4 * n, 4 * (n + 1), 4 * neighborTotal, 4 * (riverCount + 1), 4 * riverTotal, 2 * n, n, nameBytes];
+    const offsets: number[] = [];
+    let size = HEADER_BYTES;
+    for (const bytes of sizes) {
+        offsets.push(size);
+        size = (size + bytes + 3) & ~3;
+    }
+    return { offsets, size };
+}
+
+export function encodeWorldData(data: WorldData, radius: number): ArrayBuffer {
+    const n = data.hexagons.length;
+    const neighborTotal = data.centerNeighbors.reduce((sum, list) => sum + list.length, 0);
+    const riverTotal = data.rivers.reduce((sum, course) => sum + course.length, 0);
+    const names = new TextEncoder().encode(JSON.stringify(data.regionNames));
+
+    const { offsets, size } = layout(n, neighborTotal, data.rivers.length, riverTotal, names.length);
+    const buffer = new ArrayBuffer(size);
+
+    const header = new DataView(buffer, 0, HEADER_BYTES);
+    header.setUint32(0, MAGIC, true);
+    header.setUint16(4, WORLD_FORMAT_VERSION, true);
+    header.setUint16(6, n > 0 ? h3.getResolution(data.hexagons[0]) : 0, true);
+    header.setFloat64(8, radius, true);
+    header.setUint32(16, n, true);
+    header.setUint32(20, neighborTotal, true);
+    header.setUint32(24, data.rivers.length, true);
+    header.setUint32(28, riverTotal, true);
+    header.setUint32(32, names.length, true);
+
+    const ids = new Uint32Array(buffer, offsets[0], 2 * n);
+    data.hexagons.forEach((h, i) => {
+        const [lower, upper] = h3.h3IndexToSplitLong(h);
+        ids[2 * i] = lower;
+        ids[2 * i + 1] = upper;
+    });
+    new Float32Array(buffer, offsets[1], n).set(data.elevations);
+    writeCsr(data.centerNeighbors, new Uint32Array(buffer, offsets[2], n + 1), new Uint32Array(buffer, offsets[3], neighborTotal));
+    writeCsr(data.rivers, new Uint32Array(buffer, offsets[4], data.rivers.length + 1), new Uint32Array(buffer, offsets[5], riverTotal));
+    new Int16Array(buffer, offsets[6], n).set(data.centerRegion);
+    const biomes = new Uint8Array(buffer, offsets[7], n);
+    data.biomes.forEach((b, i) => { biomes[i] = BIOME_TYPES.indexOf(b); });
+    new Uint8Array(buffer, offsets[8], names.length).set(names);
+    return buffer;
+}
+
+function writeCsr(lists: number[][], starts: Uint32Array, values: Uint32Array) {
+    let k = 0;
+    lists.forEach((list, i) => {
+        starts[i] = k;
+        for (const v of list) values[k++] = v;
+    });
+    starts[lists.length] = k;
+}
+
+function readCsr(starts: Uint32Array, values: Uint32Array): number[][] {
+    const lists: number[][] = [];
+    for (let i = 0; i + 1 < starts.length; i++) lists.push(Array.from(values.subarray(starts[i], starts[i + 1])));
+    return lists;
+}
+
+/** Rebuilds WorldData from encodeWorldData's output; null if the bytes aren't a world of this version. */
+export function decodeWorldData(buffer: ArrayBuffer): WorldData | null {
+    if (buffer.byteLength < HEADER_BYTES) return null;
+    const header = new DataView(buffer, 0, HEADER_BYTES);
+    if (header.getUint32(0, true) !== MAGIC || header.getUint16(4, true) !== WORLD_FORMAT_VERSION) return null;
+    const radius = header.getFloat64(8, true);
+    const n = header.getUint32(16, true);
+    const neighborTotal = header.getUint32(20, true);
+    const riverCount = header.getUint32(24, true);
+    const riverTotal = header.getUint32(28, true);
+    const nameBytes = header.getUint32(32, true);
+
+    const { offsets, size } = layout(n, neighborTotal, riverCount, riverTotal, nameBytes);
+    if (size !== buffer.byteLength) return null;
+
+    const ids = new Uint32Array(buffer, offsets[0], 2 * n);
+    const hexagons = Array.from({ length: n }, (_, i) => h3.splitLongToH3Index(ids[2 * i], ids[2 * i + 1]));
+    const latLngs = hexagons.map(h => h3.cellToLatLng(h));
+    const centerNeighbors = readCsr(new Uint32Array(buffer, offsets[2], n + 1), new Uint32Array(buffer, offsets[3], neighborTotal));
+    const rivers = readCsr(new Uint32Array(buffer, offsets[4], riverCount + 1), new Uint32Array(buffer, offsets[5], riverTotal));
+    const biomes = Array.from(new Uint8Array(buffer, offsets[7], n), (code): Biome => BIOME_TYPES[code] ?? 'ocean');
+    const centerWater = biomes.map(b => BIOMES[b].water);
+    const centerRiver = biomes.map(() => false);
+    rivers.forEach(course => course.forEach(i => { if (!centerWater[i]) centerRiver[i] = true; }));
+
+    let regionNames: string[];
+    try {
+        regionNames = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, offsets[8], nameBytes)));
+    } catch {
+        return null;
+    }
+
+    return {
+        centers: latLngs.map(([lat, lng]) => latLngToVector3(lat, lng, radius)),
+        centerNeighbors,
+        centerWater,
+        centerLat: latLngs.map(([lat]) => lat),
+        centerLng: latLngs.map(([, lng]) => lng),
+        hexagons,
+        biomes,
+        elevations: Array.from(new Float32Array(buffer, offsets[1], n)),
+        rivers,
+        centerRiver,
+        regionNames,
+        centerRegion: Array.from(new Int16Array(buffer, offsets[6], n)),
+    };
+}
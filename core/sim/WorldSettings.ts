@@ -0,0 +1,76 @@
+// Knobs for world generation. Two worlds built from equal settings are
+// identical, so settings (not hex data) are what the menu, the server, save
+// files and the terrain cache key agree on.
+
+export type MapPreset = 'earthLike' | 'pangaea' | 'archipelago' | 'earth' | 'custom';
+
+export interface WorldSettings {
+    seed: number;
+    preset: MapPreset;
+    /** Share of hexes under water, 0..1 */
+    seaLevel: number;
+    /** Number of landmasses the terrain grows around */
+    continents: number;
+    /** How much of the land rises into mountain ranges, 0..1 */
+    mountainFrequency: number;
+    /** H3 resolution of the hex grid; each step up has seven times the hexes */
+    resolution: number;
+}
+
+export type TerrainSettings = Pick<WorldSettings, 'seaLevel' | 'continents' | 'mountainFrequency'>;
+
+export const MAP_PRESETS: Record<Exclude<MapPreset, 'custom'>, { name: string } & TerrainSettings> = {
+    earthLike: { name: 'Earth-like', seaLevel: 0.65, continents: 6, mountainFrequency: 0.4 },
+    pangaea: { name: 'Pangaea', seaLevel: 0.6, continents: 1, mountainFrequency: 0.35 },
+    archipelago: { name: 'Archipelago', seaLevel: 0.75, continents: 18, mountainFrequency: 0.25 },
+    // The real map, read from public/earth; only mountainFrequency is used
+    earth: { name: 'Earth', seaLevel: 0.7, continents: 7, mountainFrequency: 0.4 },
+};
+
+export const MIN_RESOLUTION = 1;
+export const MAX_RESOLUTION = 4;
+/** About 41,000 hexes: fine enough for real borders, light enough for every client */
+export const DEFAULT_RESOLUTION = 3;
+
+/** Hexes on the whole globe at an H3 resolution, pentagons included. */
+export function hexCountAt(resolution: number): number {
+    return 2 + 120 * 7 ** resolution;
+}
+
+export const DEFAULT_WORLD_SETTINGS: WorldSettings = { seed: 1337, preset: 'earthLike', ...MAP_PRESETS.earthLike, resolution: DEFAULT_RESOLUTION };
+
+/** Settings for a preset with the given seed. */
+export function presetSettings(preset: Exclude<MapPreset, 'custom'>, seed: number, resolution: number = DEFAULT_RESOLUTION): WorldSettings {
+    const { seaLevel, continents, mountainFrequency } = MAP_PRESETS[preset];
+    return { seed, preset, seaLevel, continents, mountainFrequency, resolution };
+}
+
+/** Clamps settings from an untrusted source (menu input, save file, network) into range. */
+export function sanitizeWorldSettings(s: Partial<WorldSettings> | undefined): WorldSettings {
+    const num = (v: unknown, fallback: number) => (typeof v === 'number' && Number.isFinite(v) ? v : fallback);
+    const d = DEFAULT_WORLD_SETTINGS;
+    const preset = s?.preset && (s.preset === 'custom' || s.preset in MAP_PRESETS) ? s.preset : d.preset;
+    const resolution = Math.min(MAX_RESOLUTION, Math.max(MIN_RESOLUTION, Math.round(num(s?.resolution, d.resolution))));
+    // The Earth map has no terrain knobs, so Earth worlds differ only in resolution
+    if (preset === 'earth') return presetSettings('earth', Math.floor(num(s?.seed, d.seed)) >>> 0, resolution);
+    return {
+        seed: Math.floor(num(s?.seed, d.seed)) >>> 0,
+        preset,
+        seaLevel: Math.min(0.95, Math.max(0.05, num(s?.seaLevel, d.seaLevel))),
+        continents: Math.min(32, Math.max(1, Math.round(num(s?.continents, d.continents)))),
+        mountainFrequency: Math.min(1, Math.max(0, num(s?.mountainFrequency, d.mountainFrequency))),
+        resolution,
+    };
+}
+
+export function sameWorldSettings(a: WorldSettings, b: WorldSettings): boolean {
+    if (a.resolution !== b.resolution) return false;
+    if (a.preset === 'earth' || b.preset === 'earth') return a.preset === b.preset;
+    return a.seed === b.seed && a.seaLevel === b.seaLevel && a.continents === b.continents && a.mountainFrequency === b.mountainFrequency;
+}
+
+export function describeWorld(s: WorldSettings): string {
+    if (s.preset === 'earth') return MAP_PRESETS.earth.name;
+    const name = s.preset === 'custom' ? 'Custom' : MAP_PRESETS[s.preset].name;
+    return `${name} · seed ${s.seed}`;
+}
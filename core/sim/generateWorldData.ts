@@ -0,0 +1,334 @@
+import * as h3 from 'h3-js';
+import { Random } from './Random';
+import { SimplexNoise } from './Noise';
+import { EarthData, nearEarthWater, sampleEarth } from './EarthData';
+import { BIOMES } from './Biomes';
+import { DEFAULT_WORLD_SETTINGS, WorldSettings } from './WorldSettings';
+import type { Biome, WorldData } from './types';
+
+// Terrain generation shared by the browser and the Node server. It is fully
+// deterministic, so every client builds the same hex indices as the server.
+
+export function latLngToVector3(lat: number, lng: number, radius: number): { x: number, y: number, z: number } {
+    const phi = (90 - lat) * (Math.PI / 180);
+    const theta = lng * (Math.PI / 180);
+    const x = radius * Math.sin(phi) * Math.cos(theta);
+    const y = radius * Math.cos(phi);
+    const z = radius * Math.sin(phi) * Math.sin(theta);
+    return { x, y, z };
+}
+
+/** Inverse of latLngToVector3 for a point at any distance from the center. */
+export function vector3ToLatLng(x: number, y: number, z: number): { lat: number, lng: number } {
+    const length = Math.hypot(x, y, z) || 1;
+    const lat = 90 - Math.acos(Math.max(-1, Math.min(1, y / length))) * (180 / Math.PI);
+    const lng = Math.atan2(z, x) * (180 / Math.PI);
+    return { lat, lng };
+}
+
+/** Sea level maps to this elevation, so the view's height scale keeps working across settings. */
+const SEA_ELEVATION = 0.4;
+/** Land up to this much above sea level is coast. */
+const COAST_BAND = 0.04;
+/** Land up to this much above sea level counts as lowland, where swamps form. */
+const LOWLAND_BAND = 0.1;
+const POLE_LATITUDE = 70;
+/** Share of inland hexes that become mountains at mountainFrequency 1. */
+const MAX_MOUNTAIN_SHARE = 0.4;
+/** Temperature (0 at the poles, 1 at the equator) below which land is snow or tundra. */
+const SNOW_TEMPERATURE = 0.1;
+const TUNDRA_TEMPERATURE = 0.3;
+/** Temperature lost per unit of elevation above sea level. */
+const LAPSE_RATE = 0.6;
+/** Water bodies of at most this many hexes are lakes rather than ocean. */
+const LAKE_MAX_HEXES = 12;
+/** One river rises per this many land hexes. */
+const HEXES_PER_RIVER = 120;
+const MIN_RIVER_LENGTH = 3;
+/** Fixed noise seed for the Earth map's climate, which has no seed of its own. */
+const EARTH_CLIMATE_SEED = 0xea57;
+
+interface Terrain {
+    elevations: number[];
+    biomes: Biome[];
+    /** 0..1 per hex; rivers rise where it is wet */
+    moisture: number[];
+}
+
+/** Value below which `q` of the (ascending) sorted values fall. */
+function quantile(sorted: number[], q: number): number {
+    if (sorted.length === 0) return 0;
+    return sorted[Math.min(sorted.length - 1, Math.max(0, Math.floor(q * sorted.length)))];
+}
+
+/** 1 at the equator falling to 0 at the poles, and colder the higher the ground. */
+function temperatureAt(lat: number, elevation: number): number {
+    return 1 - Math.abs(lat) / 90 - Math.max(0, elevation - SEA_ELEVATION) * LAPSE_RATE;
+}
+
+/**
+ * Moisture from a noise value in [-1, 1]: the subtropics around 25 degrees
+ * are dry and the equator is wet, like the real circulation cells.
+ */
+function moistureAt(lat: number, noise: number): number {
+    const subtropic = 1 - Math.min(1, Math.abs(Math.abs(lat) - 25) / 20);
+    const equator = 1 - Math.min(1, Math.abs(lat) / 15);
+    return Math.min(1, Math.max(0, 0.55 + noise * 0.5 - subtropic * 0.3 + equator * 0.2));
+}
+
+/** Biome of inland, non-mountain ground from its climate. */
+function climateBiome(temperature: number, moisture: number, lowland: boolean): Biome {
+    if (temperature < SNOW_TEMPERATURE) return 'snow';
+    if (temperature < TUNDRA_TEMPERATURE) return 'tundra';
+    if (moisture < 0.3 && temperature > 0.45) return 'desert';
+    if (moisture > 0.75 && lowland) return 'swamp';
+    if (moisture > 0.55) return temperature > 0.72 ? 'jungle' : 'forest';
+    return 'grassland';
+}
+
+/**
+ * Elevation and biome for every hex. Landmasses grow around `continents`
+ * random points on the sphere, roughened by fractal noise; the sea line is
+ * then placed so exactly `seaLevel` of the hexes end up under water.
+ */
+function generateTerrain(centers: { x: number, y: number, z: number }[], centerLat: number[], settings: WorldSettings): Terrain {
+    const rng = new Random(settings.seed);
+    const terrain = new SimplexNoise(rng.int(0, 0x7fffffff));
+    const ridges = new SimplexNoise(rng.int(0, 0x7fffffff));
+    const wetness = new SimplexNoise(rng.int(0, 0x7fffffff));
+
+    // Continent cores: uniform random points on the unit sphere. Each is sized
+    // so together they cover about the requested land share.
+    const landShare = 1 - settings.seaLevel;
+    const baseRadius = Math.acos(Math.max(-1, 1 - 2 * landShare / settings.continents));
+    const cores = Array.from({ length: settings.continents }, () => {
+        const z = rng.next() * 2 - 1;
+        const theta = rng.next() * Math.PI * 2;
+        const r = Math.sqrt(1 - z * z);
+        return { x: r * Math.cos(theta), y: z, z: r * Math.sin(theta), radius: baseRadius * (0.7 + rng.next() * 0.6) };
+    });
+
+    const units = centers.map(c => {
+        const len = Math.hypot(c.x, c.y, c.z) || 1;
+        return { x: c.x / len, y: c.y / len, z: c.z / len };
+    });
+    const isPole = units.map(({ x, y, z }, i) => Math.abs(centerLat[i]) + terrain.noise3(x * 4, y * 4, z * 4) * 4 > POLE_LATITUDE);
+
+    const raw = units.map(({ x, y, z }) => {
+        // Warp the lookup so coastlines wander instead of tracing circles
+        const wx = x + 0.25 * terrain.noise3(x * 2 + 31, y * 2, z * 2);
+        const wy = y + 0.25 * terrain.noise3(x * 2, y * 2 + 47, z * 2);
+        const wz = z + 0.25 * terrain.noise3(x * 2, y * 2, z * 2 + 59);
+        const wl = Math.hypot(wx, wy, wz) || 1;
+        let mask = 0;
+        for (const core of cores) {
+            const dot = (wx * core.x + wy * core.y + wz * core.z) / wl;
+            const angle = Math.acos(Math.max(-1, Math.min(1, dot)));
+            mask = Math.max(mask, 1 - angle / core.radius);
+        }
+        return mask * 0.75 + terrain.fbm(x, y, z, 5, 2) * 0.25;
+    });
+
+    // Sea line at the seaLevel quantile of the non-polar hexes; elevations are remapped around it
+    const sorted = raw.filter((_, i) => !isPole[i]).sort((a, b) => a - b);
+    const seaLine = quantile(sorted, settings.seaLevel);
+    const min = sorted[0] ?? 0;
+    const max = sorted[sorted.length - 1] ?? 1;
+    const elevations = raw.map(v => v < seaLine
+        ? SEA_ELEVATION * Math.max(0, v - min) / Math.max(1e-9, seaLine - min)
+        : Math.min(1, SEA_ELEVATION + (1 - SEA_ELEVATION) * (v - seaLine) / Math.max(1e-9, max - seaLine)));
+
+    // Mountains: the highest-scoring share of inland hexes, scored by ridge noise and height
+    const ruggedness = units.map(({ x, y, z }, i) => ridges.ridged(x, y, z, 3, 4) * 0.6 + (elevations[i] - SEA_ELEVATION) * 0.4);
+    const inland = ruggedness.filter((_, i) => !isPole[i] && elevations[i] >= SEA_ELEVATION + COAST_BAND).sort((a, b) => a - b);
+    const mountainLine = settings.mountainFrequency > 0 ? quantile(inland, 1 - settings.mountainFrequency * MAX_MOUNTAIN_SHARE) : Infinity;
+
+    const moisture = units.map(({ x, y, z }, i) => moistureAt(centerLat[i], wetness.fbm(x, y, z, 3, 2)));
+    const biomes = elevations.map((elevation, i): Biome => {
+        // Polar caps freeze over sea and land alike
+        if (isPole[i]) return 'snow';
+        if (elevation < SEA_ELEVATION) return 'ocean';
+        if (elevation < SEA_ELEVATION + COAST_BAND) return 'coast';
+        if (ruggedness[i] >= mountainLine) return 'mountain';
+        return climateBiome(temperatureAt(centerLat[i], elevation), moisture[i], elevation < SEA_ELEVATION + LOWLAND_BAND);
+    });
+    return { elevations, biomes, moisture };
+}
+
+/**
+ * Terrain for the 'earth' preset, read from the bundled raster instead of
+ * grown from noise. Mountains are the highest share of inland hexes, the same
+ * rule the generated terrain uses, so the two play alike. The raster's
+ * deserts and ice are kept; the rest of the land gets its climate from
+ * latitude, height and a fixed moisture noise.
+ */
+function earthTerrain(centers: { x: number, y: number, z: number }[], centerLat: number[], centerLng: number[], earth: EarthData, settings: WorldSettings): Terrain & { centerRegion: number[] } {
+    const wetness = new SimplexNoise(EARTH_CLIMATE_SEED);
+    const samples = centerLat.map((lat, i) => sampleEarth(earth, lat, centerLng[i]));
+    const elevations = samples.map(s => s.water ? SEA_ELEVATION * 0.75 : SEA_ELEVATION + (1 - SEA_ELEVATION) * s.height);
+    const isPole = samples.map((s, i) => !s.water && (s.cover === 'ice' || Math.abs(centerLat[i]) > POLE_LATITUDE));
+    const isCoast = samples.map((s, i) => !s.water && nearEarthWater(earth, centerLat[i], centerLng[i]));
+    const moisture = centers.map((c, i) => {
+        const len = Math.hypot(c.x, c.y, c.z) || 1;
+        return moistureAt(centerLat[i], wetness.fbm(c.x / len, c.y / len, c.z / len, 3, 2));
+    });
+
+    const inland = samples.filter((s, i) => !s.water && !isPole[i] && !isCoast[i]).map(s => s.height).sort((a, b) => a - b);
+    const mountainLine = settings.mountainFrequency > 0 ? quantile(inland, 1 - settings.mountainFrequency * MAX_MOUNTAIN_SHARE) : Infinity;
+
+    const biomes = samples.map((s, i): Biome => {
+        if (s.water) return 'ocean';
+        if (isPole[i]) return 'snow';
+        if (isCoast[i]) return 'coast';
+        if (s.height >= mountainLine) return 'mountain';
+        if (s.cover === 'desert') return 'desert';
+        const biome = climateBiome(temperatureAt(centerLat[i], elevations[i]), moisture[i], elevations[i] < SEA_ELEVATION + LOWLAND_BAND);
+        return biome === 'desert' ? 'grassland' : biome;
+    });
+    return { elevations, biomes, moisture, centerRegion: samples.map(s => s.region) };
+}
+
+/**
+ * Small enclosed seas become lakes, then rivers run from wet high ground
+ * downhill over the neighbor graph until they reach water. A river that
+ * gets stuck in a hollow pools into a new lake there. Updates `terrain` in
+ * place and returns the river courses.
+ */
+function addWaterways(terrain: Terrain, centerNeighbors: number[][]): number[][] {
+    const { elevations, biomes, moisture } = terrain;
+    const isWater = (i: number) => biomes[i] === 'ocean' || biomes[i] === 'lake';
+
+    const seen = new Uint8Array(biomes.length);
+    for (let start = 0; start < biomes.length; start++) {
+        if (seen[start] || biomes[start] !== 'ocean') continue;
+        const body = [start];
+        seen[start] = 1;
+        for (let k = 0; k < body.length; k++) {
+            for (const n of centerNeighbors[body[k]]) {
+                if (!seen[n] && biomes[n] === 'ocean') {
+                    seen[n] = 1;
+                    body.push(n);
+                }
+            }
+        }
+        // A lone hex with no neighbors at all says nothing about its surroundings
+        if (body.length <= LAKE_MAX_HEXES && centerNeighbors[start].length > 0) body.forEach(i => { biomes[i] = 'lake'; });
+    }
+
+    const land = biomes.map((_, i) => i).filter(i => !isWater(i) && biomes[i] !== 'snow' && biomes[i] !== 'coast');
+    const sources = land
+        .filter(i => moisture[i] > 0.45)
+        .sort((a, b) => elevations[b] * moisture[b] - elevations[a] * moisture[a] || a - b);
+    const riverCount = Math.floor(land.length / HEXES_PER_RIVER);
+
+    const onRiver = new Uint8Array(biomes.length);
+    const rivers: number[][] = [];
+    for (const source of sources) {
+        if (rivers.length >= riverCount) break;
+        if (onRiver[source] || centerNeighbors[source].some(n => onRiver[n])) continue;
+        const course = [source];
+        let current = source;
+        while (!isWater(current) && !(current !== source && onRiver[current])) {
+            let next = -1;
+            for (const n of centerNeighbors[current]) {
+                if (elevations[n] < elevations[next < 0 ? current : next]) next = n;
+            }
+            if (next < 0) {
+                // A hollow: the river pools here
+                if (course.length >= MIN_RIVER_LENGTH && biomes[current] !== 'mountain') {
+                    biomes[current] = 'lake';
+                    elevations[current] = SEA_ELEVATION * 0.9;
+                }
+                break;
+            }
+            course.push(next);
+            current = next;
+        }
+        if (course.length < MIN_RIVER_LENGTH) continue;
+        course.forEach(i => { if (!isWater(i)) onRiver[i] = 1; });
+        rivers.push(course);
+    }
+    return rivers;
+}
+
+/** Number of neighbor links with no link back; 0 for a sound grid. */
+export function countAsymmetricNeighbors(centerNeighbors: number[][]): number {
+    let count = 0;
+    centerNeighbors.forEach((neighbors, i) => {
+        for (const n of neighbors) {
+            if (n === undefined || !centerNeighbors[n]?.includes(i)) count++;
+        }
+    });
+    return count;
+}
+
+/** Steps of generateWorldData, in the order they run. */
+export const WORLD_GEN_STAGES = ['cells', 'neighbors', 'biomes', 'rivers'] as const;
+export type WorldGenStage = typeof WORLD_GEN_STAGES[number];
+/** Called as generation advances; `fraction` is how much of `stage` is done, 0 to 1. */
+export type WorldGenProgress = (stage: WorldGenStage, fraction: number) => void;
+
+/** Hexes whose neighbors are looked up between two progress reports. */
+const PROGRESS_BATCH = 4096;
+
+/**
+ * Builds the hex grid and its terrain. The 'earth' preset needs the bundled
+ * raster in `earth`; without it the terrain falls back to noise.
+ */
+export function generateWorldData(radius: number, settings: WorldSettings = DEFAULT_WORLD_SETTINGS, earth: EarthData | null = null, onProgress?: WorldGenProgress): WorldData {
+    const resolution = settings.resolution;
+    const r = radius;
+    const report = onProgress ?? (() => {});
+
+    // Every cell at the resolution, as the children of the 122 base cells.
+    // The order is fixed by H3, so hex indices agree everywhere.
+    report('cells', 0);
+    const hexagons = h3.getRes0Cells().flatMap(cell => h3.cellToChildren(cell, resolution));
+    console.log(`Generated ${hexagons.length} hexagons at H3 resolution ${resolution}`);
+
+    const hexToIndex = new Map<string, number>();
+    hexagons.forEach((h, i) => hexToIndex.set(h, i));
+
+    const latLngs = hexagons.map(h => h3.cellToLatLng(h));
+    const centers = latLngs.map(([lat, lng]) => latLngToVector3(lat, lng, r));
+    const centerLat = latLngs.map(([lat]) => lat);
+    const centerLng = latLngs.map(([, lng]) => lng);
+    report('cells', 1);
+
+    // gridDisk copes with pentagons, which have five neighbors instead of six
+    const centerNeighbors: number[][] = [];
+    hexagons.forEach((h, i) => {
+        centerNeighbors.push(h3.gridDisk(h, 1).filter(n => n !== h).map(n => hexToIndex.get(n)!));
+        if ((i + 1) % PROGRESS_BATCH === 0) report('neighbors', (i + 1) / hexagons.length);
+    });
+    report('neighbors', 1);
+    const asymmetric = countAsymmetricNeighbors(centerNeighbors);
+    if (asymmetric > 0) console.warn(`${asymmetric} one-way neighbor links in the hex grid`);
+
+    if (settings.preset === 'earth' && !earth) console.warn('Earth map data missing, generating terrain instead');
+    const terrain = settings.preset === 'earth' && earth
+        ? earthTerrain(centers, centerLat, centerLng, earth, settings)
+        : { ...generateTerrain(centers, centerLat, settings), centerRegion: hexagons.map(() => -1) };
+    report('biomes', 1);
+    const rivers = addWaterways(terrain, centerNeighbors);
+    report('rivers', 1);
+    const { elevations, biomes, centerRegion } = terrain;
+    const centerWater = biomes.map(b => BIOMES[b].water);
+    const centerRiver = biomes.map(() => false);
+    rivers.forEach(course => course.forEach(i => { if (!centerWater[i]) centerRiver[i] = true; }));
+
+    return {
+        centers,
+        centerNeighbors,
+        centerWater,
+        centerLat,
+        centerLng,
+        hexagons,
+        biomes,
+        elevations,
+        rivers,
+        centerRiver,
+        regionNames: settings.preset === 'earth' && earth ? earth.regionNames : [],
+        centerRegion,
+    };
+}
@@ -0,0 +1,26 @@
+// Plain data types shared by the simulation and the Three.js view.
+// Nothing in core/sim may import three or touch the DOM.
+
+export type Biome =
+    | 'ocean' | 'lake' | 'coast'
+    | 'grassland' | 'forest' | 'jungle' | 'swamp' | 'desert'
+    | 'tundra' | 'snow' | 'mountain';
+
+export interface WorldData {
+    centers: { x: number, y: number, z: number }[];
+    centerNeighbors: number[][];
+    centerWater: boolean[];
+    centerLat: number[];
+    centerLng: number[];
+    hexagons: string[];
+    biomes: Biome[];
+    elevations: number[];
+    /** River courses as hex indices from source to mouth; the mouth may be a water hex */
+    rivers: number[][];
+    /** True for land hexes a river runs through */
+    centerRiver: boolean[];
+    /** Named regions (countries on the Earth map); empty for generated terrain */
+    regionNames: string[];
+    /** Index into regionNames per hex, or -1 */
+    centerRegion: number[];
+}
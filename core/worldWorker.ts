@@ -0,0 +1,34 @@
+import { generateWorldData } from './sim/generateWorldData';
+import type { WorldGenStage } from './sim/generateWorldData';
+import type { EarthData } from './sim/EarthData';
+import { encodeWorldData } from './sim/WorldFormat';
+import type { WorldSettings } from './sim/WorldSettings';
+
+// Web Worker that runs world generation off the main thread, so the menu
+// stays responsive on a cache miss. It streams progress while it works and
+// answers with the world in WorldFormat's binary layout, whose buffer is
+// transferred rather than copied. Started by World.init().
+
+export interface WorldWorkerRequest {
+    radius: number;
+    settings: WorldSettings;
+    earth: EarthData | null;
+}
+
+export type WorldWorkerMessage =
+    | { type: 'progress'; stage: WorldGenStage; fraction: number }
+    | { type: 'done'; bytes: ArrayBuffer }
+    | { type: 'error'; message: string };
+
+const post = (msg: WorldWorkerMessage, transfer: Transferable[] = []) => self.postMessage(msg, { transfer });
+
+self.onmessage = (event: MessageEvent<WorldWorkerRequest>) => {
+    const { radius, settings, earth } = event.data;
+    try {
+        const data = generateWorldData(radius, settings, earth, (stage, fraction) => post({ type: 'progress', stage, fraction }));
+        const bytes = encodeWorldData(data, radius);
+        post({ type: 'done', bytes }, [bytes]);
+    } catch (err) {
+        post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+};
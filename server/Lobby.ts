@@ -0,0 +1,207 @@
+import { WebSocket } from 'ws';
+import { randomBytes } from 'crypto';
+import { Simulation, SimEvent, TICK_SECONDS } from '../core/sim/Simulation';
+import { Random } from '../core/sim/Random';
+import { NO_OWNER, playerStats } from '../core/sim/Player';
+import { pickSpawn } from '../core/sim/Bots';
+import type { WorldData } from '../core/sim/types';
+import type { WorldSettings } from '../core/sim/WorldSettings';
+import type { MatchSettings } from '../core/sim/Match';
+import { SPAWN_RADIUS } from '../core/net/protocol';
+import type { Intent, PlayerInfo, ServerMessage } from '../core/net/protocol';
+
+// How long a disconnected player keeps their slot so they can reconnect
+export const RECONNECT_GRACE_MS = 60_000;
+const MAX_PLAYERS = 8;
+
+export interface LobbyPlayer {
+    info: PlayerInfo;
+    /** Secret handed out in `welcome`; only a client that knows it can reclaim the slot */
+    reconnectToken: string;
+    socket: WebSocket | null;
+    disconnectedAt: number;
+}
+
+/** A refusal is `fatal` unless retrying later can succeed. */
+export type JoinResult = { ok: true; player: LobbyPlayer } | { ok: false; error: string; fatal: boolean };
+
+// One running match. The lobby's Simulation is authoritative: clients only
+// send intents, and every tick the resulting events are broadcast to all.
+export class Lobby {
+    id: string;
+    sim: Simulation;
+    world: WorldSettings;
+    players = new Map<number, LobbyPlayer>();
+    private spawnRng: Random;
+    private pendingEvents: SimEvent[] = [];
+    private timer: ReturnType<typeof setInterval>;
+
+    constructor(id: string, map: WorldData, world: WorldSettings, match: MatchSettings, seed: number) {
+        this.id = id;
+        this.world = world;
+        this.sim = new Simulation(map, { seed, match });
+        this.spawnRng = new Random(seed ^ 0x5bd1e995);
+        this.sim.subscribe(event => this.pendingEvents.push(event));
+        this.timer = setInterval(() => this.tick(), TICK_SECONDS * 1000);
+    }
+
+    get isEmpty(): boolean {
+        return this.players.size === 0;
+    }
+
+    join(socket: WebSocket, name: string, playerId?: number, reconnectToken?: string): JoinResult {
+        // Reconnect into an existing slot, but only with its token and only once the old connection is gone
+        const existing = playerId !== undefined ? this.players.get(playerId) : undefined;
+        if (existing) {
+            if (reconnectToken !== existing.reconnectToken) return { ok: false, error: 'Invalid reconnect token', fatal: true };
+            // The server may not have noticed a dropped connection yet, so the client may try again
+            if (existing.socket && existing.socket.readyState === WebSocket.OPEN) return { ok: false, error: 'That nation is still connected', fatal: false };
+            existing.socket = socket;
+            existing.info.connected = true;
+            this.welcome(existing);
+            this.broadcastLobby();
+            return { ok: true, player: existing };
+        }
+
+        if (this.players.size >= MAX_PLAYERS) return { ok: false, error: 'Lobby is full', fatal: true };
+
+        const nation = this.sim.addPlayer(name.slice(0, 24) || 'Player');
+        const player: LobbyPlayer = {
+            info: {
+                id: nation.id,
+                name: nation.name,
+                color: nation.color,
+                spawnHex: pickSpawn(this.sim, this.spawnRng),
+                connected: true,
+            },
+            reconnectToken: randomBytes(16).toString('hex'),
+            socket,
+            disconnectedAt: 0,
+        };
+        this.players.set(nation.id, player);
+        this.sim.activate();
+        this.welcome(player);
+        this.broadcastLobby();
+        return { ok: true, player };
+    }
+
+    disconnect(player: LobbyPlayer) {
+        player.socket = null;
+        player.info.connected = false;
+        player.disconnectedAt = Date.now();
+        this.broadcastLobby();
+    }
+
+    handleIntent(player: LobbyPlayer, intent: Intent) {
+        const id = player.info.id;
+        switch (intent.kind) {
+            case 'expand':
+                this.sim.startExpansion(id, intent.hexIndex, Math.floor(intent.troops), intent.speed);
+                break;
+            case 'cancelExpansion':
+                this.sim.cancelExpansion(id, intent.expansionId);
+                break;
+            case 'attack':
+                this.sim.attack(id, intent.hexIndex, Math.floor(intent.troops));
+                break;
+            case 'build':
+                if (intent.building === 'capital') this.placeCapital(player, intent.hexIndex);
+                else this.sim.build(id, intent.hexIndex, intent.building);
+                break;
+            case 'launch':
+                this.sim.launchMissile(id, intent.hexIndex, intent.missile);
+                break;
+            case 'diplomacy':
+                this.sim.diplomaticAction(id, intent.targetId, intent.action);
+                break;
+            case 'focus':
+                this.sim.setTroopFocus(id, intent.focus);
+                break;
+            case 'boat':
+                this.sim.launchBoat(id, intent.hexIndex, Math.floor(intent.troops));
+                break;
+            case 'warship':
+                this.sim.buildWarship(id, intent.hexIndex);
+                break;
+            case 'bridge':
+                this.sim.buildBridge(id, intent.hexIndex);
+                break;
+            case 'road':
+                this.sim.buildRoad(id, intent.hexIndex, intent.road);
+                break;
+        }
+    }
+
+    /** Founds the player's nation, but only near the spawn the lobby dealt them. */
+    private placeCapital(player: LobbyPlayer, hexIndex: number) {
+        const spawn = player.info.spawnHex;
+        if (spawn !== -1 && this.sim.hexDistance(spawn, hexIndex, SPAWN_RADIUS) === -1) return;
+        if (this.sim.placeCapital(player.info.id, hexIndex)) return;
+        // Another nation settled the spot first: deal a fresh one
+        if (spawn === -1 || this.sim.centerOwner[spawn] !== NO_OWNER) {
+            player.info.spawnHex = pickSpawn(this.sim, this.spawnRng);
+            this.broadcastLobby();
+        }
+    }
+
+    private welcome(player: LobbyPlayer) {
+        this.send(player, {
+            type: 'welcome',
+            playerId: player.info.id,
+            reconnectToken: player.reconnectToken,
+            lobbyId: this.id,
+            seed: this.sim.seed,
+            world: this.world,
+            hexCount: this.sim.hexCount,
+            players: this.playerList(),
+            snapshot: this.sim.getSnapshot(),
+        });
+    }
+
+    private playerList(): PlayerInfo[] {
+        return Array.from(this.players.values()).map(p => p.info);
+    }
+
+    private broadcastLobby() {
+        this.broadcast({ type: 'lobby', players: this.playerList() });
+    }
+
+    private tick() {
+        this.sim.step();
+
+        const events = this.pendingEvents;
+        this.pendingEvents = [];
+        this.broadcast({ type: 'tick', tick: this.sim.tick, events, stats: this.sim.players.map(playerStats) });
+
+        // Drop players whose reconnect window has expired. Their nation stays
+        // on the map; it just stops receiving orders.
+        const now = Date.now();
+        let removed = false;
+        this.players.forEach((p, id) => {
+            if (!p.socket && now - p.disconnectedAt > RECONNECT_GRACE_MS) {
+                this.players.delete(id);
+                removed = true;
+            }
+        });
+        if (removed) this.broadcastLobby();
+    }
+
+    private send(player: LobbyPlayer, msg: ServerMessage) {
+        if (player.socket && player.socket.readyState === WebSocket.OPEN) {
+            player.socket.send(JSON.stringify(msg));
+        }
+    }
+
+    broadcast(msg: ServerMessage) {
+        const raw = JSON.stringify(msg);
+        this.players.forEach(p => {
+            if (p.socket && p.socket.readyState === WebSocket.OPEN) p.socket.send(raw);
+        });
+    }
+
+    dispose() {
+        clearInterval(this.timer);
+        this.players.forEach(p => p.socket?.close());
+        this.players.clear();
+    }
+}
@@ -0,0 +1,19 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { gzipSync } from 'zlib';
+import { encodeWorldData, worldCacheKey } from '../core/sim/WorldFormat';
+import { describeWorld } from '../core/sim/WorldSettings';
+import { buildWorld, GLOBE_RADIUS, worldSettingsFromEnv } from './worldConfig';
+
+// `npm run bake-world`: generates the world the WORLD_* variables describe
+// and writes it to public/worlds/<cache key>.bin, where the browser finds it
+// before generating its own. Worth it for big resolutions players load often.
+
+const settings = worldSettingsFromEnv();
+console.log(`Baking ${describeWorld(settings)} at H3 resolution ${settings.resolution}...`);
+const bytes = gzipSync(new Uint8Array(encodeWorldData(buildWorld(settings), GLOBE_RADIUS)));
+
+const dir = new URL('../public/worlds/', import.meta.url);
+mkdirSync(dir, { recursive: true });
+const file = new URL(`${worldCacheKey(settings)}.bin`, dir);
+writeFileSync(file, bytes);
+console.log(`Wrote ${file.pathname} (${bytes.length} bytes)`);
@@ -0,0 +1,93 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { describeWorld } from '../core/sim/WorldSettings';
+import { parseClientMessage, PROTOCOL_VERSION, ServerMessage } from '../core/net/protocol';
+import { Lobby, LobbyPlayer } from './Lobby';
+import { buildWorld, worldSettingsFromEnv } from './worldConfig';
+import { matchSettingsFromEnv } from './matchConfig';
+
+// Small authoritative game server: `npm run server`, then pick Multiplayer in
+// the menu. Listens on PORT (default 8080) and hosts any number of lobbies.
+// The WORLD_* variables in worldConfig.ts pick the map; clients regenerate
+// the same terrain from those settings when they join. The MATCH_* variables
+// in matchConfig.ts pick the rules.
+
+const PORT = Number(process.env.PORT) || 8080;
+
+const worldSettings = worldSettingsFromEnv();
+console.log(`Generating world data (${describeWorld(worldSettings)})...`);
+const worldData = buildWorld(worldSettings);
+console.log(`World ready: ${worldData.hexagons.length} hexes`);
+const matchSettings = matchSettingsFromEnv();
+
+const lobbies = new Map<string, Lobby>();
+
+function getLobby(id: string): Lobby {
+    let lobby = lobbies.get(id);
+    if (!lobby) {
+        lobby = new Lobby(id, worldData, worldSettings, matchSettings, (Date.now() ^ (Math.random() * 0xffffffff)) >>> 0);
+        lobbies.set(id, lobby);
+        console.log(`Lobby "${id}" created`);
+    }
+    return lobby;
+}
+
+// Periodically close lobbies everyone has left
+setInterval(() => {
+    lobbies.forEach((lobby, id) => {
+        if (lobby.isEmpty) {
+            lobby.dispose();
+            lobbies.delete(id);
+            console.log(`Lobby "${id}" closed`);
+        }
+    });
+}, 10_000);
+
+const send = (socket: WebSocket, msg: ServerMessage) => socket.send(JSON.stringify(msg));
+
+const wss = new WebSocketServer({ port: PORT });
+
+wss.on('connection', (socket) => {
+    let lobby: Lobby | null = null;
+    let player: LobbyPlayer | null = null;
+
+    socket.on('message', (data) => {
+        const msg = parseClientMessage(data.toString());
+        if (!msg) {
+            send(socket, { type: 'error', message: 'Malformed message' });
+            return;
+        }
+
+        switch (msg.type) {
+            case 'join': {
+                if (msg.version !== PROTOCOL_VERSION) {
+                    send(socket, { type: 'error', message: `Protocol mismatch: server ${PROTOCOL_VERSION}, client ${msg.version}`, fatal: true });
+                    socket.close();
+                    return;
+                }
+                if (player) return; // Already joined on this socket
+                lobby = getLobby(msg.lobbyId || 'default');
+                const joined = lobby.join(socket, msg.name, msg.playerId, msg.reconnectToken);
+                if (!joined.ok) {
+                    lobby = null;
+                    send(socket, { type: 'error', message: joined.error, fatal: joined.fatal });
+                    socket.close();
+                    return;
+                }
+                player = joined.player;
+                break;
+            }
+            case 'intent':
+                if (lobby && player) lobby.handleIntent(player, msg.intent);
+                break;
+            case 'ping':
+                send(socket, { type: 'pong', time: msg.time });
+                break;
+        }
+    });
+
+    socket.on('close', () => {
+        if (lobby && player && player.socket === socket) lobby.disconnect(player);
+    });
+});
+
+console.log(`Sketchi server listening on ws://localhost:${PORT}`);
@@ -0,0 +1,20 @@
+import { MatchSettings, sanitizeMatchSettings } from '../core/sim/Match';
+
+// The rules every lobby on the server plays by, picked by MATCH_CASH,
+// MATCH_TROOPS, MATCH_NUKES (on/off), MATCH_TEAMS (0 or 2-4),
+// MATCH_DOMINATION (percent of the land) and MATCH_TIME_LIMIT (minutes, 0
+// for none). Unset variables keep the defaults.
+
+export function matchSettingsFromEnv(): MatchSettings {
+    const num = (name: string) => (process.env[name] ? Number(process.env[name]) : undefined);
+    const nukes = process.env.MATCH_NUKES;
+    const domination = num('MATCH_DOMINATION');
+    return sanitizeMatchSettings({
+        startingCash: num('MATCH_CASH'),
+        startingTroops: num('MATCH_TROOPS'),
+        nukes: nukes ? nukes !== 'off' : undefined,
+        teams: num('MATCH_TEAMS'),
+        dominationShare: domination !== undefined ? domination / 100 : undefined,
+        timeLimit: num('MATCH_TIME_LIMIT'),
+    });
+}
@@ -0,0 +1,35 @@
+import { readFileSync } from 'fs';
+import { generateWorldData } from '../core/sim/generateWorldData';
+import { EarthData, parseEarthData } from '../core/sim/EarthData';
+import { MAP_PRESETS, presetSettings, sanitizeWorldSettings, WorldSettings } from '../core/sim/WorldSettings';
+import type { WorldData } from '../core/sim/types';
+
+// The map the server hosts, and the one `npm run bake-world` writes, picked by
+// WORLD_PRESET (earthLike, pangaea, archipelago, earth), WORLD_SEED and
+// WORLD_RESOLUTION (H3 resolution, 1-4).
+
+export const GLOBE_RADIUS = 210; // Must match World.globeRadius
+
+export function worldSettingsFromEnv(): WorldSettings {
+    const preset = (process.env.WORLD_PRESET ?? 'earthLike') as keyof typeof MAP_PRESETS;
+    return sanitizeWorldSettings({
+        ...presetSettings(preset in MAP_PRESETS ? preset : 'earthLike', Number(process.env.WORLD_SEED) >>> 0 || 1337),
+        resolution: Number(process.env.WORLD_RESOLUTION) || undefined,
+    });
+}
+
+/** The Earth raster the browser fetches from public/earth, read straight off disk. */
+function loadEarthData(): EarthData | null {
+    try {
+        const bin = readFileSync(new URL('../public/earth/earth.bin', import.meta.url));
+        const regions = JSON.parse(readFileSync(new URL('../public/earth/regions.json', import.meta.url), 'utf8'));
+        return parseEarthData(bin.buffer.slice(bin.byteOffset, bin.byteOffset + bin.byteLength), regions);
+    } catch (err) {
+        console.warn('Failed to read Earth map data:', err);
+        return null;
+    }
+}
+
+export function buildWorld(settings: WorldSettings): WorldData {
+    return generateWorldData(GLOBE_RADIUS, settings, settings.preset === 'earth' ? loadEarthData() : null);
+}
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateWorldData } from '../core/sim/generateWorldData';
+import { presetSettings } from '../core/sim/WorldSettings';
+import { Simulation } from '../core/sim/Simulation';
+import { addBots } from '../core/sim/Bots';
+import { NO_OWNER } from '../core/sim/Player';
+
+// Lockstep multiplayer and replays only work if a match is a pure function of
+// its seed and the orders given: same inputs, same board, on every machine.
+
+const TICKS = 600;
+const world = generateWorldData(210, presetSettings('pangaea', 7, 2), null);
+
+/** Plays a short match: one scripted nation against bots, ordering an expansion or an attack every few seconds. */
+function playMatch(seed: number): Simulation {
+    const sim = new Simulation(world, { seed });
+    const me = sim.addPlayer('Tester').id;
+    addBots(sim, 3, 'hard');
+    for (let i = 0; i < world.biomes.length && !sim.placeCapital(me, i); i++);
+    sim.activate();
+
+    for (let t = 0; t < TICKS; t++) {
+        if (sim.tick % 50 === 0) {
+            const troops = Math.floor(sim.players[me].troops * 0.3);
+            const border = world.centerNeighbors.flatMap((neighbors, i) => (sim.centerOwner[i] === me ? neighbors : []))
+                .filter(n => sim.centerOwner[n] !== me && !world.centerWater[n]);
+            const enemy = border.find(n => sim.centerOwner[n] !== NO_OWNER);
+            if (enemy !== undefined) sim.attack(me, enemy, troops);
+            else if (border.length > 0) sim.startExpansion(me, border[0], troops);
+        }
+        sim.step();
+    }
+    return sim;
+}
+
+test('same seed and orders give the same snapshot', () => {
+    const a = playMatch(42);
+    const b = playMatch(42);
+    assert.equal(a.tick, TICKS);
+    // The bots have to have played for the comparison to mean anything
+    assert.ok(a.players.filter(p => p.territorySize > 1).length >= 3);
+    assert.deepEqual(b.getSnapshot(), a.getSnapshot());
+});
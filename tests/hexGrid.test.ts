@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { countAsymmetricNeighbors, generateWorldData } from '../core/sim/generateWorldData';
+import { presetSettings } from '../core/sim/WorldSettings';
+
+// Fronts, borders and pathfinding walk centerNeighbors both ways, so a hex
+// has to be listed by every hex it lists.
+
+const world = generateWorldData(210, presetSettings('pangaea', 1, 2), null);
+
+test('every neighbor link goes both ways', () => {
+    world.centerNeighbors.forEach((neighbors, i) => {
+        for (const n of neighbors) assert.ok(world.centerNeighbors[n].includes(i), `hex ${n} does not list its neighbor ${i}`);
+    });
+    assert.equal(countAsymmetricNeighbors(world.centerNeighbors), 0);
+});
+
+test('hexes have six neighbors and the twelve pentagons five', () => {
+    const counts = world.centerNeighbors.map(neighbors => new Set(neighbors).size);
+    assert.equal(counts.filter(c => c === 5).length, 12);
+    assert.ok(counts.every(c => c === 5 || c === 6));
+});
+
+test('one-way links are counted', () => {
+    assert.equal(countAsymmetricNeighbors([[1], [0, 2], []]), 1);
+});
@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateWorldData } from '../core/sim/generateWorldData';
+import { presetSettings } from '../core/sim/WorldSettings';
+import { Simulation } from '../core/sim/Simulation';
+import { sanitizeMatchSettings } from '../core/sim/Match';
+import { NO_OWNER } from '../core/sim/Player';
+
+// The view repaints blast hexes while the impact events are emitted, so the
+// simulation has to have recorded the fallout by then.
+
+const world = generateWorldData(210, presetSettings('pangaea', 3, 2), null);
+
+test('fallout is down before a nuke reports its impact', () => {
+    const sim = new Simulation(world, { seed: 1, match: sanitizeMatchSettings({ startingCash: 10_000_000, startingTroops: 5000 }) });
+    const attacker = sim.addPlayer('Attacker').id;
+    const target = sim.addPlayer('Target').id;
+    const land = world.biomes.map((_, i) => i).filter(i => !world.centerWater[i]);
+    assert.ok(sim.placeCapital(attacker, land[0]));
+    assert.ok(sim.placeCapital(target, land[land.length - 1]));
+    sim.activate();
+
+    // Grow enough land around the capital to put a silo on
+    sim.startExpansion(attacker, world.centerNeighbors[land[0]].find(n => !world.centerWater[n])!, 2000);
+    for (let t = 0; t < 100; t++) sim.step();
+    const siloHex = land.find(h => sim.canBuild(attacker, h, 'missileSilo') === null);
+    assert.ok(siloHex !== undefined, 'no hex to build a silo on');
+    assert.ok(sim.build(attacker, siloHex, 'missileSilo'));
+    while (sim.buildingAt(siloHex)!.constructionLeft > 0) sim.step();
+
+    const checked: string[] = [];
+    sim.subscribe(event => {
+        if (event.type === 'missileImpact') {
+            for (const h of event.blastHexes) {
+                if (!world.centerWater[h]) assert.ok(sim.fallout.has(h), `hex ${h} has no fallout at impact`);
+            }
+            checked.push(event.type);
+        } else if (event.type === 'hexOwned' && event.ownerId === NO_OWNER) {
+            assert.ok(sim.fallout.has(event.hexIndex), `hex ${event.hexIndex} lost its owner before its fallout`);
+            checked.push(event.type);
+        }
+    });
+    assert.ok(sim.launchMissile(attacker, land[land.length - 1], 'atomBomb'));
+    for (let t = 0; t < 1000 && !checked.includes('missileImpact'); t++) sim.step();
+
+    assert.ok(checked.includes('missileImpact'));
+    assert.ok(checked.includes('hexOwned'));
+});
@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef } from 'react';
 import { Game } from '../core/Game';
-import { MainMenu } from './MainMenu';
+import { MainMenu, StartOptions } from './MainMenu';
 import { UI } from './UI';
 import { useUIStore } from '../uiStore';
 import './style.css';
@@ -12,13 +12,44 @@ function App() {
   const { theme } = useUIStore();
   const gameInstance = useRef<Game | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // Set while a start waits for its globe, so a second click doesn't start twice
+  const starting = useRef(false);
 
-  const startGame = (playerName: string) => {
+  const startGame = async (playerName: string, options: StartOptions) => {
+    const game = gameInstance.current;
+    if (!game || starting.current) return;
     console.log(`Starting game for ${playerName}`);
+    starting.current = true;
+    // Online the server picks the map; offline we rebuild the globe for the chosen settings.
+    // Either way the menu stays up, showing progress, until a globe is ready.
+    const ready = options.serverUrl ? await game.worldReady() : await game.setWorldSettings(options.world);
+    starting.current = false;
+    if (!ready) return;
+    if (options.serverUrl) game.startMultiplayer(options.serverUrl, playerName);
+    else game.startSingleplayer(playerName, options.botCount, options.botDifficulty, options.match);
+    game.activateGame();
     setIsPlaying(true);
-    if (gameInstance.current) {
-        gameInstance.current.activateGame();
-    }
+  };
+
+  // Ends the match, win or not, and brings the menu back over an empty globe
+  const leaveGame = () => {
+    gameInstance.current?.leaveMatch();
+    setIsPlaying(false);
+  };
+
+  const retryWorld = () => {
+    gameInstance.current?.retryWorld();
+  };
+
+  // Returns an error message for the menu if the save can't be loaded
+  const loadGame = async (saveText: string): Promise<string | null> => {
+    const game = gameInstance.current;
+    if (!game) return 'The game is still loading.';
+    const error = await game.loadMatch(saveText);
+    if (error) return error;
+    setIsPlaying(true);
+    game.activateGame();
+    return null;
   };
 
   useEffect(() => {
@@ -29,18 +60,17 @@ function App() {
           console.log('Initializing game...');
           const game = new Game(containerRef.current);
           console.log('Created Game instance');
-          
-          console.log('Starting world initialization...');
-          await game.initWorld();
-          console.log('World initialized successfully');
-          
+
           console.log('Starting game loop...');
           game.start();
           console.log('Game started');
-          
+
           gameInstance.current = game;
           setIsGameReady(true);
-          console.log('Game is ready!');
+
+          // The globe builds in the background; the menu shows its progress
+          console.log('Starting world initialization...');
+          if (await game.initWorld()) console.log('World initialized successfully');
         } catch (error) {
           console.error('Failed to initialize game:', error);
           setIsGameReady(false);
@@ -65,10 +95,10 @@ function App() {
       <div ref={containerRef} style={{ width: '100%', height: '100%', position: 'absolute', top: 0, left: 0, zIndex: 0 }} />
 
       {/* Render Main Menu if not playing */}
-      {!isPlaying && <MainMenu onStartGame={startGame} />}
+      {!isPlaying && <MainMenu onStartGame={startGame} onLoadGame={loadGame} onRetryWorld={retryWorld} />}
       
       {/* Render HUD if game is running */}
-      {isPlaying && isGameReady && gameInstance.current && <UI game={gameInstance.current} />}
+      {isPlaying && isGameReady && gameInstance.current && <UI game={gameInstance.current} onLeave={leaveGame} />}
     </div>
   );
 }
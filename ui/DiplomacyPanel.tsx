@@ -0,0 +1,93 @@
+import { useEffect } from 'react';
+import { Game } from '../core/Game';
+import { useUIStore } from '../uiStore';
+import { OVERLAY_PRIORITY } from '../core/InputManager';
+import type { DiplomacyAction } from '../core/sim/Diplomacy';
+
+const buttonStyle = (background: string): React.CSSProperties => ({
+    background,
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    padding: '3px 8px',
+    marginLeft: '4px',
+    cursor: 'pointer',
+    fontSize: '12px'
+});
+
+// Lists every other nation with its relation to us and the orders that fit it.
+export const DiplomacyPanel = ({ game }: { game: Game }) => {
+    const { diplomacy, diplomacyFocus, closeDiplomacy } = useUIStore();
+
+    const act = (targetId: number, action: DiplomacyAction) => game.diplomaticAction(targetId, action);
+
+    // Escape closes the panel rather than clearing the selection behind it
+    useEffect(() => game.inputManager.subscribe(event => {
+        if (event.type !== 'action' || event.action !== 'cancel') return false;
+        closeDiplomacy();
+        return true;
+    }, OVERLAY_PRIORITY), [game, closeDiplomacy]);
+
+    return (
+        <div id="diplomacy-panel" style={{
+            position: 'absolute',
+            top: '50%',
+            left: '50%',
+            transform: 'translate(-50%, -50%)',
+            background: 'rgba(0, 0, 0, 0.85)',
+            color: 'white',
+            padding: '15px 20px',
+            borderRadius: '8px',
+            fontFamily: 'sans-serif',
+            fontSize: '14px',
+            minWidth: '420px',
+            zIndex: 1100
+        }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+                <strong style={{ fontSize: '16px' }}>🤝 Diplomacy</strong>
+                <button onClick={closeDiplomacy} style={buttonStyle('#57606f')}>✕</button>
+            </div>
+            {diplomacy.length === 0 && <div>No other nations yet.</div>}
+            {diplomacy.map((n: any) => {
+                const status = n.allied ? 'Allied'
+                    : n.incomingRequest ? 'Wants an alliance'
+                    : n.outgoingRequest ? 'Request sent'
+                    : 'Neutral';
+                return (
+                    <div key={n.id} style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '8px',
+                        padding: '6px',
+                        borderRadius: '4px',
+                        background: n.id === diplomacyFocus ? 'rgba(255, 255, 255, 0.15)' : 'transparent'
+                    }}>
+                        <span style={{ width: '12px', height: '12px', borderRadius: '2px', background: `#${n.color.toString(16).padStart(6, '0')}` }} />
+                        <span style={{ flex: 1 }}>
+                            {n.name}
+                            {n.traitor && <span title="Recently broke an alliance"> 🗡️</span>}
+                            <span style={{ opacity: 0.7 }}> · {status}</span>
+                            {n.embargoed && <span style={{ opacity: 0.7 }}> · embargoed</span>}
+                            {n.embargoedBy && <span style={{ opacity: 0.7 }}> · embargoes us</span>}
+                        </span>
+                        {n.incomingRequest && !n.allied && (
+                            <>
+                                <button onClick={() => act(n.id, 'accept')} style={buttonStyle('#2ed573')}>Accept</button>
+                                <button onClick={() => act(n.id, 'reject')} style={buttonStyle('#ff4757')}>Reject</button>
+                            </>
+                        )}
+                        {!n.allied && !n.incomingRequest && !n.outgoingRequest && (
+                            <button onClick={() => act(n.id, 'request')} style={buttonStyle('#1e90ff')}>Ally</button>
+                        )}
+                        {n.allied && (
+                            <button onClick={() => act(n.id, 'break')} title="Marks you as a traitor" style={buttonStyle('#ff4757')}>Break</button>
+                        )}
+                        <button onClick={() => act(n.id, n.embargoed ? 'liftEmbargo' : 'embargo')} style={buttonStyle('#ffa502')}>
+                            {n.embargoed ? 'Lift embargo' : 'Embargo'}
+                        </button>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { Game } from '../core/Game';
+import { useUIStore } from '../uiStore';
+import { INPUT_ACTIONS, INPUT_ACTION_LABELS, InputAction, keyLabel, OVERLAY_PRIORITY } from '../core/InputManager';
+
+const MOUSE_CONTROLS: [string, string][] = [
+    ['Click', 'Select a hex · attack, expand or send a boat · build in build mode'],
+    ['Right click / long press', 'Order menu'],
+    ['Shift + drag', 'Select an area'],
+    ['Drag · wheel · pinch', 'Turn and zoom the globe'],
+];
+
+const chipStyle = (active: boolean): React.CSSProperties => ({
+    display: 'inline-block',
+    width: 'auto',
+    minWidth: '28px',
+    margin: '0 0 0 4px',
+    padding: '2px 6px',
+    border: '1px solid #888',
+    borderRadius: '4px',
+    background: active ? '#ffa502' : '#2f3542',
+    color: 'white',
+    fontSize: '12px',
+    fontFamily: 'monospace',
+    cursor: 'pointer'
+});
+
+// Lists mouse controls and every shortcut. Clicking a shortcut's keys waits
+// for a new key to bind to it; bindings are saved in the browser.
+export const HelpOverlay = ({ game }: { game: Game }) => {
+    const { closeHelp } = useUIStore();
+    const input = game.inputManager;
+    const [rebinding, setRebinding] = useState<InputAction | null>(null);
+    // Bindings live in the input manager; bump this to show changes
+    const [, setVersion] = useState(0);
+
+    useEffect(() => input.subscribe(event => {
+        if (event.type !== 'action' || event.action !== 'cancel') return false;
+        closeHelp();
+        return true;
+    }, OVERLAY_PRIORITY), [input, closeHelp]);
+
+    useEffect(() => {
+        if (!rebinding) return;
+        return input.captureKey(code => {
+            if (code) input.bindKey(rebinding, code);
+            setRebinding(null);
+            setVersion(v => v + 1);
+        });
+    }, [input, rebinding]);
+
+    const reset = () => {
+        input.resetKeyBindings();
+        setVersion(v => v + 1);
+    };
+
+    return (
+        <div id="help-overlay" style={{
+            position: 'absolute',
+            top: '50%',
+            left: '50%',
+            transform: 'translate(-50%, -50%)',
+            background: 'rgba(0, 0, 0, 0.85)',
+            color: 'white',
+            padding: '15px 20px',
+            borderRadius: '8px',
+            fontFamily: 'sans-serif',
+            fontSize: '13px',
+            minWidth: '380px',
+            maxHeight: '80vh',
+            overflowY: 'auto',
+            zIndex: 1100
+        }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+                <strong style={{ fontSize: '16px' }}>⌨️ Controls</strong>
+                <button onClick={closeHelp} style={{ ...chipStyle(false), fontFamily: 'sans-serif' }}>✕</button>
+            </div>
+            {MOUSE_CONTROLS.map(([control, effect]) => (
+                <div key={control} style={{ display: 'flex', justifyContent: 'space-between', gap: '16px', margin: '3px 0' }}>
+                    <span style={{ opacity: 0.7 }}>{control}</span>
+                    <span>{effect}</span>
+                </div>
+            ))}
+            <div style={{ borderTop: '1px solid #555', margin: '10px 0' }} />
+            {INPUT_ACTIONS.map(action => (
+                <div key={action} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', margin: '3px 0' }}>
+                    <span>{INPUT_ACTION_LABELS[action]}</span>
+                    <button onClick={() => setRebinding(action)} title="Click, then press a new key (Esc to keep)" style={chipStyle(rebinding === action)}>
+                        {rebinding === action ? 'Press a key…' : input.keyBindings[action].map(keyLabel).join(' / ') || 'Unbound'}
+                    </button>
+                </div>
+            ))}
+            <button onClick={reset} style={{ ...chipStyle(false), margin: '12px 0 0 0', fontFamily: 'sans-serif' }}>Reset to defaults</button>
+        </div>
+    );
+};
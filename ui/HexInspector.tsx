@@ -0,0 +1,80 @@
+import { Game } from '../core/Game';
+import { useUIStore } from '../uiStore';
+
+const formatCoordinate = (value: number, positive: string, negative: string) =>
+    `${Math.abs(value).toFixed(2)}°${value >= 0 ? positive : negative}`;
+
+const row = (label: string, value: React.ReactNode, key: string = label) => (
+    <div key={key} style={{ display: 'flex', justifyContent: 'space-between', gap: '12px' }}>
+        <span style={{ opacity: 0.7 }}>{label}</span>
+        <span>{value}</span>
+    </div>
+);
+
+// A nation's color chip followed by a label
+const swatch = (color: number, label: React.ReactNode) => (
+    <span style={{ display: 'inline-flex', alignItems: 'center', gap: '6px' }}>
+        <span style={{ width: '10px', height: '10px', borderRadius: '2px', background: `#${color.toString(16).padStart(6, '0')}` }} />
+        {label}
+    </span>
+);
+
+const hexRows = (hex: any) => [
+    hex.region && row('Region', hex.region),
+    row('Elevation', hex.elevation.toFixed(2)),
+    row('Location', `${formatCoordinate(hex.lat, 'N', 'S')} ${formatCoordinate(hex.lng, 'E', 'W')}`),
+    !hex.water && row('Owner', hex.owner ? swatch(hex.owner.color, hex.owner.name) : 'Unclaimed'),
+    hex.troops !== null && row('Troops', <span title="The owner's army spread over its territory">~{hex.troops.toLocaleString()} per hex</span>),
+    ...hex.buildings.map((b: any) => row(
+        'Building',
+        `${b.name}${b.constructing ? ' (building)' : ` · ${Math.round(b.health)} hp`}`,
+        `building-${b.id}`
+    )),
+];
+
+const groupRows = (group: any) => [
+    row('Land', group.land.toLocaleString()),
+    ...group.owners.map((o: any) => row(o.name, swatch(o.color, o.count.toLocaleString()), `owner-${o.id}`)),
+];
+
+// Details of the hex under the pointer, of the hex pinned by a click, or a
+// summary of the hexes pinned by dragging a box.
+export const HexInspector = ({ game }: { game: Game }) => {
+    const { inspectedHex: hex, theme } = useUIStore();
+    if (!hex) return null;
+
+    return (
+        <div id="hex-inspector" style={{
+            position: 'absolute',
+            bottom: '20px',
+            left: '20px',
+            background: theme === 'dark' ? 'rgba(0, 0, 0, 0.75)' : 'rgba(0, 0, 0, 0.6)',
+            color: 'white',
+            padding: '10px 14px',
+            borderRadius: '8px',
+            border: hex.pinned ? '1px solid white' : '1px solid transparent',
+            fontFamily: 'sans-serif',
+            fontSize: '13px',
+            minWidth: '200px',
+            pointerEvents: 'auto'
+        }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '6px' }}>
+                <strong style={{ fontSize: '14px' }}>
+                    {hex.group
+                        ? `${hex.count.toLocaleString()} hexes`
+                        : `${hex.biome}${hex.river ? ' · river' : ''}${hex.fallout ? ' ☢️' : ''}`}
+                </strong>
+                {hex.pinned && (
+                    <button onClick={() => game.selectHexes([])} title="Unpin" style={{
+                        width: 'auto',
+                        margin: 0,
+                        padding: '0 6px',
+                        background: '#57606f',
+                        fontSize: '12px'
+                    }}>✕</button>
+                )}
+            </div>
+            {hex.group ? groupRows(hex) : hexRows(hex)}
+        </div>
+    );
+};
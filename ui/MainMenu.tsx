@@ -1,20 +1,82 @@
 // src/components/ui/MainMenu.tsx
 import { useState, FC } from 'react';
 import { useUIStore } from '../uiStore';
+import { DEFAULT_SERVER_URL } from '../core/net/protocol';
+import type { BotDifficulty } from '../core/sim/Bots';
+import type { WorldLoadStage } from '../core/World';
+import { DEFAULT_MATCH_SETTINGS, MatchSettings, MAX_TEAMS, sanitizeMatchSettings } from '../core/sim/Match';
+import { DEFAULT_WORLD_SETTINGS, hexCountAt, MAP_PRESETS, MapPreset, MAX_RESOLUTION, MIN_RESOLUTION, presetSettings, WorldSettings } from '../core/sim/WorldSettings';
 import './ui.css';
 
+export interface StartOptions {
+  serverUrl?: string;
+  botCount: number;
+  botDifficulty: BotDifficulty;
+  world: WorldSettings;
+  /** Rules of an offline match; a server picks its own */
+  match: MatchSettings;
+}
+
 interface MainMenuProps {
-  onStartGame: (playerName: string) => void;
+  onStartGame: (playerName: string, options: StartOptions) => void;
+  /** Returns an error message if the save couldn't be loaded */
+  onLoadGame: (saveText: string) => Promise<string | null>;
+  /** Builds the globe again after it failed to generate */
+  onRetryWorld: () => void;
 }
 
-export const MainMenu: FC<MainMenuProps> = ({ onStartGame }) => {
+const DOMINATION_SHARES = [0.5, 0.6, 0.7, 0.8, 0.9, 1];
+const TIME_LIMITS = [0, 10, 20, 30, 60];
+
+const RESOLUTIONS = Array.from({ length: MAX_RESOLUTION - MIN_RESOLUTION + 1 }, (_, i) => MIN_RESOLUTION + i);
+
+const LOADING_STAGES: Record<WorldLoadStage, string> = {
+  cache: 'Loading world',
+  cells: 'Creating cells',
+  neighbors: 'Linking neighbors',
+  biomes: 'Assigning biomes',
+  rivers: 'Carving rivers',
+  globe: 'Building globe',
+};
+
+export const MainMenu: FC<MainMenuProps> = ({ onStartGame, onLoadGame, onRetryWorld }) => {
   const [playerName, setPlayerName] = useState('Player');
-  const { theme, toggleTheme } = useUIStore();
+  const [serverUrl, setServerUrl] = useState(DEFAULT_SERVER_URL);
+  const [botCount, setBotCount] = useState(3);
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>('medium');
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [world, setWorld] = useState<WorldSettings>(DEFAULT_WORLD_SETTINGS);
+  const [match, setMatch] = useState<MatchSettings>(DEFAULT_MATCH_SETTINGS);
+
+  const tweakMatch = (changes: Partial<MatchSettings>) => setMatch(sanitizeMatchSettings({ ...match, ...changes }));
 
-  const handleStart = () => {
+  const choosePreset = (preset: MapPreset) => {
+    if (preset === 'custom') setWorld({ ...world, preset });
+    else setWorld(presetSettings(preset, world.seed, world.resolution));
+  };
+
+  const earthMap = world.preset === 'earth';
+
+  // Hand-tuning any terrain knob turns the map into a custom one
+  const tweakWorld = (changes: Partial<WorldSettings>) => setWorld({ ...world, ...changes, preset: 'custom' });
+  const { theme, toggleTheme, worldLoading, worldError } = useUIStore();
+
+  const handleLoad = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setLoadError(await onLoadGame(await file.text()));
+    } catch {
+      setLoadError('Could not read the file.');
+    }
+  };
+
+  const handleStart = (multiplayer: boolean) => {
     // Basic validation to ensure the player name isn't empty
-    if (playerName.trim()) {
-      onStartGame(playerName.trim());
+    if (!playerName.trim()) return;
+    if (multiplayer) {
+      if (serverUrl.trim()) onStartGame(playerName.trim(), { serverUrl: serverUrl.trim(), botCount: 0, botDifficulty, world, match });
+    } else {
+      onStartGame(playerName.trim(), { botCount, botDifficulty, world, match });
     }
   };
 
@@ -38,7 +100,163 @@ export const MainMenu: FC<MainMenuProps> = ({ onStartGame }) => {
             onChange={(e) => setPlayerName(e.target.value)}
           />
         </div>
-        <button className="menu-button" onClick={handleStart}>Singleplayer</button>
+        <div className="menu-row">
+          <div className="nametag-container">
+            <label htmlFor="bot-count">Bots</label>
+            <input
+              id="bot-count"
+              type="number"
+              min={0}
+              max={7}
+              value={botCount}
+              onChange={(e) => setBotCount(Math.max(0, Math.min(7, Number(e.target.value) || 0)))}
+            />
+          </div>
+          <div className="nametag-container">
+            <label htmlFor="bot-difficulty">Difficulty</label>
+            <select
+              id="bot-difficulty"
+              value={botDifficulty}
+              onChange={(e) => setBotDifficulty(e.target.value as BotDifficulty)}
+            >
+              <option value="easy">Easy</option>
+              <option value="medium">Medium</option>
+              <option value="hard">Hard</option>
+            </select>
+          </div>
+        </div>
+        <div className="menu-row">
+          <div className="nametag-container">
+            <label htmlFor="map-preset">Map</label>
+            <select id="map-preset" value={world.preset} onChange={(e) => choosePreset(e.target.value as MapPreset)}>
+              {Object.entries(MAP_PRESETS).map(([id, p]) => <option key={id} value={id}>{p.name}</option>)}
+              <option value="custom">Custom</option>
+            </select>
+          </div>
+          <div className="nametag-container">
+            <label htmlFor="map-resolution">Hexes</label>
+            <select id="map-resolution" value={world.resolution} onChange={(e) => setWorld({ ...world, resolution: Number(e.target.value) })}>
+              {RESOLUTIONS.map(r => <option key={r} value={r}>{hexCountAt(r).toLocaleString()}</option>)}
+            </select>
+          </div>
+          {!earthMap && (
+            <div className="nametag-container">
+              <label htmlFor="map-seed">Seed</label>
+              <div className="menu-row" style={{ gap: '4px' }}>
+                <input
+                  id="map-seed"
+                  type="number"
+                  value={world.seed}
+                  onChange={(e) => setWorld({ ...world, seed: (Number(e.target.value) || 0) >>> 0 })}
+                />
+                <button className="seed-button" title="Random seed" onClick={() => setWorld({ ...world, seed: Math.floor(Math.random() * 1e9) })}>🎲</button>
+              </div>
+            </div>
+          )}
+        </div>
+        {/* The Earth map is fixed; only generated terrain has knobs */}
+        {!earthMap && (
+          <div className="menu-row">
+            <div className="nametag-container">
+              <label htmlFor="sea-level">Sea {Math.round(world.seaLevel * 100)}%</label>
+              <input id="sea-level" type="range" min={0.3} max={0.9} step={0.05} value={world.seaLevel}
+                onChange={(e) => tweakWorld({ seaLevel: Number(e.target.value) })} />
+            </div>
+            <div className="nametag-container">
+              <label htmlFor="continents">Continents {world.continents}</label>
+              <input id="continents" type="range" min={1} max={24} step={1} value={world.continents}
+                onChange={(e) => tweakWorld({ continents: Number(e.target.value) })} />
+            </div>
+            <div className="nametag-container">
+              <label htmlFor="mountains">Mountains {Math.round(world.mountainFrequency * 100)}%</label>
+              <input id="mountains" type="range" min={0} max={1} step={0.05} value={world.mountainFrequency}
+                onChange={(e) => tweakWorld({ mountainFrequency: Number(e.target.value) })} />
+            </div>
+          </div>
+        )}
+        <div className="menu-row">
+          <div className="nametag-container">
+            <label htmlFor="starting-cash">Starting cash</label>
+            <input
+              id="starting-cash"
+              type="number"
+              min={0}
+              step={10000}
+              value={match.startingCash}
+              onChange={(e) => tweakMatch({ startingCash: Number(e.target.value) || 0 })}
+            />
+          </div>
+          <div className="nametag-container">
+            <label htmlFor="starting-troops">Starting troops</label>
+            <input
+              id="starting-troops"
+              type="number"
+              min={1}
+              step={100}
+              value={match.startingTroops}
+              onChange={(e) => tweakMatch({ startingTroops: Number(e.target.value) || 1 })}
+            />
+          </div>
+          <div className="nametag-container">
+            <label htmlFor="teams">Teams</label>
+            <select id="teams" value={match.teams} onChange={(e) => tweakMatch({ teams: Number(e.target.value) })}>
+              <option value={0}>Free for all</option>
+              {Array.from({ length: MAX_TEAMS - 1 }, (_, i) => i + 2).map(n => <option key={n} value={n}>{n} teams</option>)}
+            </select>
+          </div>
+        </div>
+        <div className="menu-row">
+          <div className="nametag-container">
+            <label htmlFor="domination">Win at</label>
+            <select id="domination" value={match.dominationShare} onChange={(e) => tweakMatch({ dominationShare: Number(e.target.value) })}>
+              {DOMINATION_SHARES.map(share => <option key={share} value={share}>{Math.round(share * 100)}% of the land</option>)}
+            </select>
+          </div>
+          <div className="nametag-container">
+            <label htmlFor="time-limit">Time limit</label>
+            <select id="time-limit" value={match.timeLimit} onChange={(e) => tweakMatch({ timeLimit: Number(e.target.value) })}>
+              {TIME_LIMITS.map(minutes => <option key={minutes} value={minutes}>{minutes ? `${minutes} min` : 'None'}</option>)}
+            </select>
+          </div>
+          <div className="nametag-container">
+            <label htmlFor="nukes">Nukes</label>
+            <input id="nukes" type="checkbox" checked={match.nukes} onChange={(e) => tweakMatch({ nukes: e.target.checked })} />
+          </div>
+        </div>
+        {worldLoading && (
+          <div className="world-loading">
+            <span>{LOADING_STAGES[worldLoading.stage as WorldLoadStage] ?? 'Loading'}… {Math.round(worldLoading.progress * 100)}%</span>
+            <div className="world-loading-bar">
+              <div className="world-loading-fill" style={{ width: `${worldLoading.progress * 100}%` }} />
+            </div>
+          </div>
+        )}
+        {worldError && (
+          <div className="menu-error">
+            {worldError} <button className="seed-button" onClick={onRetryWorld}>Retry</button>
+          </div>
+        )}
+        <button className="menu-button" onClick={() => handleStart(false)}>Singleplayer</button>
+        <div className="nametag-container" style={{ marginTop: '20px' }}>
+          <label htmlFor="server-url">Server</label>
+          <input
+            id="server-url"
+            type="text"
+            value={serverUrl}
+            onChange={(e) => setServerUrl(e.target.value)}
+          />
+        </div>
+        <button className="menu-button" onClick={() => handleStart(true)}>Multiplayer</button>
+        <label className="menu-button" style={{ display: 'block', boxSizing: 'border-box', marginTop: '20px' }}>
+          Load save
+          <input
+            type="file"
+            accept=".json,application/json"
+            style={{ display: 'none' }}
+            onChange={(e) => { handleLoad(e.target.files?.[0]); e.target.value = ''; }}
+          />
+        </label>
+        {loadError && <div className="menu-error">{loadError}</div>}
       </div>
     </div>
   );
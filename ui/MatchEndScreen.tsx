@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { Game } from '../core/Game';
+import { useUIStore } from '../uiStore';
+import { TICK_SECONDS } from '../core/sim/Simulation';
+import type { MatchOutcome, MatchStanding, VictoryReason } from '../core/sim/Match';
+
+const REASONS: Record<VictoryReason, string> = {
+    domination: 'Took control of the land',
+    lastStanding: 'Last one standing',
+    timeLimit: 'Best score when time ran out',
+};
+
+// Minutes and seconds, e.g. "12:05"
+export const formatClock = (seconds: number) => {
+    const s = Math.max(0, Math.ceil(seconds));
+    return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+const buttonStyle: React.CSSProperties = {
+    width: 'auto',
+    padding: '6px 14px',
+    border: '1px solid #888',
+    borderRadius: '4px',
+    background: '#2f3542',
+    color: 'white',
+    fontSize: '14px',
+    cursor: 'pointer'
+};
+
+const cellStyle: React.CSSProperties = { padding: '3px 8px', textAlign: 'right' };
+
+// Shown once the match is won or lost: who won and how, and how every nation
+// finished. The finished globe stays up behind it until the player leaves.
+export const MatchEndScreen = ({ game, onLeave }: { game: Game; onLeave: () => void }) => {
+    const { matchOutcome } = useUIStore();
+    const [hidden, setHidden] = useState(false);
+    const outcome = matchOutcome as MatchOutcome;
+    const me = game.localPlayerId;
+    const teams = (game.simulation?.matchSettings.teams ?? 0) > 1;
+
+    if (hidden) {
+        return (
+            <button onClick={() => setHidden(false)} style={{ ...buttonStyle, position: 'absolute', bottom: '80px', left: '50%', transform: 'translateX(-50%)' }}>
+                🏁 Results
+            </button>
+        );
+    }
+
+    const won = me !== null && outcome.winners.includes(me);
+    const title = me === null ? '🏁 Match over' : won ? '🏆 Victory' : '💀 Defeat';
+    const winnerNames = outcome.standings.filter(s => outcome.winners.includes(s.id)).map(s => s.name).join(', ');
+
+    return (
+        <div id="match-end" style={{
+            position: 'absolute',
+            top: '50%',
+            left: '50%',
+            transform: 'translate(-50%, -50%)',
+            background: 'rgba(0, 0, 0, 0.85)',
+            color: 'white',
+            padding: '20px 24px',
+            borderRadius: '8px',
+            fontFamily: 'sans-serif',
+            fontSize: '14px',
+            minWidth: '420px',
+            maxHeight: '80vh',
+            overflowY: 'auto',
+            zIndex: 1100
+        }}>
+            <div style={{ fontSize: '28px', fontWeight: 'bold', textAlign: 'center' }}>{title}</div>
+            <div style={{ textAlign: 'center', margin: '6px 0 14px', opacity: 0.8 }}>
+                {winnerNames} · {REASONS[outcome.reason]} · {formatClock(outcome.tick * TICK_SECONDS)}
+            </div>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                    <tr style={{ opacity: 0.7 }}>
+                        <th style={{ ...cellStyle, textAlign: 'left' }}>Nation</th>
+                        {teams && <th style={cellStyle}>Team</th>}
+                        <th style={cellStyle}>Land</th>
+                        <th style={cellStyle}>Buildings</th>
+                        <th style={cellStyle}>Troops</th>
+                        <th style={cellStyle}>Score</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {outcome.standings.map((s: MatchStanding) => (
+                        <tr key={s.id} style={{ fontWeight: s.id === me ? 'bold' : 'normal' }}>
+                            <td style={{ ...cellStyle, textAlign: 'left' }}>
+                                <span style={{ display: 'inline-block', width: '10px', height: '10px', marginRight: '6px', borderRadius: '2px', background: `#${s.color.toString(16).padStart(6, '0')}` }} />
+                                {outcome.winners.includes(s.id) && '👑 '}{s.name}
+                            </td>
+                            {teams && <td style={cellStyle}>{s.team + 1}</td>}
+                            <td style={cellStyle}>{s.territory.toLocaleString()}</td>
+                            <td style={cellStyle}>{s.buildings}</td>
+                            <td style={cellStyle}>{s.troops.toLocaleString()}</td>
+                            <td style={cellStyle}>{s.score.toLocaleString()}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <div style={{ display: 'flex', justifyContent: 'center', gap: '10px', marginTop: '16px' }}>
+                <button onClick={() => setHidden(true)} style={buttonStyle}>Look at the map</button>
+                <button onClick={onLeave} style={{ ...buttonStyle, background: '#ffa502' }}>Back to menu</button>
+            </div>
+        </div>
+    );
+};
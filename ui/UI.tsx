@@ -1,79 +1,244 @@
 import { useState, useEffect } from 'react';
 import { Game } from '../core/Game';
 import { useUIStore } from '../uiStore';
+import { BUILDINGS, BUILDING_TYPES, BuildingType } from '../core/sim/Buildings';
+import { MISSILES, MISSILE_TYPES, MissileType } from '../core/sim/Missiles';
+import { DiplomacyPanel } from './DiplomacyPanel';
+import { HexInspector } from './HexInspector';
+import { HelpOverlay } from './HelpOverlay';
+import { formatClock, MatchEndScreen } from './MatchEndScreen';
+import { OVERLAY_PRIORITY } from '../core/InputManager';
+import { BRIDGE_COST, MIN_ATTACK_RATIO, WARSHIP_COST } from '../core/sim/Balance';
+import { ROADS, ROAD_TYPES } from '../core/sim/Infrastructure';
 
-export const UI = ({ game }: { game: Game }) => {
-    const { cash, troops, theme } = useUIStore();
-    const [contextMenu, setContextMenu] = useState<{ visible: boolean; x: number; y: number; intersection: any }>({
+// One button on the radial menu ring; `reason` greys it out and explains why
+interface RingItem {
+    key: string;
+    name: string;
+    icon: string;
+    cost?: number;
+    color: string;
+    reason: string | null;
+    onClick: () => void;
+}
+
+// Signed cash per second, e.g. "+1,200/s"
+const perSecond = (value: number) => `${value < 0 ? '−' : '+'}${Math.abs(Math.round(value)).toLocaleString()}/s`;
+
+const MENU_SIZE = 200;
+const MENU_BUTTON_SIZE = 56;
+
+// Positions a radial menu button at `angle` radians, clockwise from the top
+const radialPosition = (angle: number) => {
+    const r = (MENU_SIZE - MENU_BUTTON_SIZE) / 2;
+    return {
+        left: MENU_SIZE / 2 + Math.sin(angle) * r - MENU_BUTTON_SIZE / 2,
+        top: MENU_SIZE / 2 - Math.cos(angle) * r - MENU_BUTTON_SIZE / 2
+    };
+};
+
+const menuButtonStyle = (angle: number, background: string, enabled: boolean): React.CSSProperties => ({
+    position: 'absolute',
+    ...radialPosition(angle),
+    width: `${MENU_BUTTON_SIZE}px`,
+    height: `${MENU_BUTTON_SIZE}px`,
+    borderRadius: '50%',
+    background: enabled ? background : '#57606f',
+    opacity: enabled ? 1 : 0.5,
+    color: 'white',
+    border: '2px solid white',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+    pointerEvents: 'auto',
+    boxShadow: '0 4px 10px rgba(0,0,0,0.3)',
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 0,
+    lineHeight: 1.1
+});
+
+export const UI = ({ game, onLeave }: { game: Game; onLeave: () => void }) => {
+    const { cash, troops, maxTroops, income, troopFocus, theme, connectionStatus, players, nations, expansions, incomingMissiles, diplomacy, diplomacyOpen, openDiplomacy, worldInfo, attackRatio, buildMode, buildError, helpOpen, toggleHelp, isGamePaused, matchOutcome, timeLeft, connectionError } = useUIStore();
+    const [contextMenu, setContextMenu] = useState<{ visible: boolean; x: number; y: number; hexIndex: number }>({
         visible: false,
         x: 0,
         y: 0,
-        intersection: null
+        hexIndex: -1
     });
 
-    useEffect(() => {
-        const handleContextMenu = (e: MouseEvent) => {
-            e.preventDefault();
-            const intersection = game.inputManager.getIntersection();
-            
-            if (intersection && intersection.point) {
-                setContextMenu({
-                    visible: true,
-                    x: e.clientX,
-                    y: e.clientY,
-                    intersection: intersection
-                });
-            }
-        };
-
-        const handleClick = () => {
-            if (contextMenu.visible) {
-                setContextMenu(prev => ({ ...prev, visible: false }));
-            }
-        };
-
-        game.renderer.domElement.addEventListener('contextmenu', handleContextMenu);
-        window.addEventListener('click', handleClick);
+    // The radial menu opens on the globe's context menu event. While it is
+    // open it takes the next click or Escape to close, so they don't also
+    // reach the globe.
+    useEffect(() => game.inputManager.subscribe(event => {
+        if (event.type === 'hexContextMenu') {
+            if (event.hexIndex === null) return false;
+            setContextMenu({ visible: true, x: event.x, y: event.y, hexIndex: event.hexIndex });
+            return true;
+        }
+        if (!contextMenu.visible) return false;
+        if (event.type === 'hexClicked' || (event.type === 'action' && event.action === 'cancel')) {
+            setContextMenu(prev => ({ ...prev, visible: false }));
+            return true;
+        }
+        return false;
+    }, OVERLAY_PRIORITY), [game, contextMenu.visible]);
 
-        return () => {
-            game.renderer.domElement.removeEventListener('contextmenu', handleContextMenu);
-            window.removeEventListener('click', handleClick);
-        };
-    }, [game, contextMenu.visible]);
+    const handleLaunch = (type: MissileType) => {
+        const playerId = game.localPlayerId;
+        if (playerId === null || contextMenu.hexIndex < 0) return;
+        game.world!.launchMissile(playerId, contextMenu.hexIndex, type);
+        setContextMenu(prev => ({ ...prev, visible: false }));
+    };
 
-    const handleAction = (action: 'attack' | 'build') => {
-        if (!contextMenu.intersection) return;
+    const handleAction = (action: 'attack' | 'capital' | BuildingType) => {
+        if (contextMenu.hexIndex < 0) return;
+        const playerId = game.localPlayerId;
+        if (playerId === null) return;
 
         if (action === 'attack') {
             // Check if the clicked point is over sea
-            if ((game.world! as any).isSea && (game.world! as any).isSea(contextMenu.intersection)) {
+            if (game.world!.isSea(contextMenu.hexIndex)) {
                 console.log("Cannot expand over sea!");
                 setContextMenu(prev => ({ ...prev, visible: false }));
                 return;
             }
 
-            // Expansion Speed: Change 0.02 to a lower number to slow down
-            const speed = Math.max(1, troops * 0.02);
-            game.world!.startExpansion(contextMenu.intersection, speed);
-            console.log("Expanding at", contextMenu.intersection, "with speed", speed);
-        } else if (action === 'build') {
+            // Shores across the water are reached by boat
+            const sim = game.simulation;
+            if (sim && sim.getPlayer(playerId)!.territorySize > 0 && !sim.isAdjacentTo(playerId, contextMenu.hexIndex)) {
+                const sent = Math.floor(troops * attackRatio);
+                game.world!.launchBoat(playerId, contextMenu.hexIndex, sent);
+                setContextMenu(prev => ({ ...prev, visible: false }));
+                return;
+            }
+
+            // Enemy territory is attacked; unclaimed land is expanded into
+            const owner = game.simulation?.ownerOf(contextMenu.hexIndex);
+            if (owner && owner.id !== playerId) {
+                const sent = Math.floor(troops * attackRatio);
+                game.world!.attack(playerId, contextMenu.hexIndex, sent);
+                setContextMenu(prev => ({ ...prev, visible: false }));
+                return;
+            }
+
+            // Bigger expansions move faster; the sim picks the speed from the troops sent
+            const sent = Math.floor(troops * attackRatio);
+            game.world!.startExpansion(playerId, contextMenu.hexIndex, sent);
+        } else if (action === 'capital') {
             // Place capital (flag) on selected hex if not sea
-            if ((game.world! as any).isSea && (game.world! as any).isSea(contextMenu.intersection)) {
+            if (game.world!.isSea(contextMenu.hexIndex)) {
                 console.log("Cannot place capital in the ocean!");
                 setContextMenu(prev => ({ ...prev, visible: false }));
                 return;
             }
+            game.placeCapital(contextMenu.hexIndex);
+        } else {
+            game.world!.build(playerId, contextMenu.hexIndex, action);
+        }
+        setContextMenu(prev => ({ ...prev, visible: false }));
+    };
 
-            if ((game.world! as any).placeCapital) {
-                const placed = (game.world! as any).placeCapital(contextMenu.intersection);
-                console.log('Place capital result:', placed);
-            } else {
-                console.log("World does not support placeCapital().");
+    // Buttons around the radial menu after ⚔️: buildings on our own land,
+    // strikes and diplomacy everywhere else
+    const ringItems = (): RingItem[] => {
+        const sim = game.simulation;
+        const me = game.localPlayerId;
+        const hex = contextMenu.hexIndex;
+        if (!sim || me === null) return [];
+        if (sim.centerOwner[hex] === me) {
+            const buildings: RingItem[] = BUILDING_TYPES.map(type => ({
+                key: type,
+                name: `Build ${BUILDINGS[type].name}`,
+                icon: BUILDINGS[type].icon,
+                cost: BUILDINGS[type].cost,
+                color: '#2ed573',
+                reason: sim.canBuild(me, hex, type),
+                onClick: () => handleAction(type)
+            }));
+            if (sim.buildingAt(hex)?.type === 'port') {
+                buildings.push({
+                    key: 'warship',
+                    name: 'Build Warship',
+                    icon: '🚢',
+                    cost: WARSHIP_COST,
+                    color: '#2ed573',
+                    reason: sim.canBuildWarship(me, hex),
+                    onClick: () => {
+                        game.world!.buildWarship(me, hex);
+                        setContextMenu(prev => ({ ...prev, visible: false }));
+                    }
+                });
             }
+            if (sim.buildingAt(hex)?.type === 'city') {
+                ROAD_TYPES.forEach(type => buildings.push({
+                    key: type,
+                    name: `Build ${ROADS[type].name} to nearest city`,
+                    icon: ROADS[type].icon,
+                    cost: ROADS[type].cost,
+                    color: '#2ed573',
+                    reason: sim.canBuildRoad(me, hex, type),
+                    onClick: () => {
+                        game.world!.buildRoad(me, hex, type);
+                        setContextMenu(prev => ({ ...prev, visible: false }));
+                    }
+                }));
+            }
+            return buildings;
         }
-        setContextMenu(prev => ({ ...prev, visible: false }));
+        const items: RingItem[] = MISSILE_TYPES.map(type => ({
+            key: type,
+            name: `Launch ${MISSILES[type].name}`,
+            icon: MISSILES[type].icon,
+            cost: MISSILES[type].cost,
+            color: '#ffa502',
+            reason: sim.canLaunch(me, hex, type),
+            onClick: () => handleLaunch(type)
+        }));
+        items.push({
+            key: 'boat',
+            name: 'Send troops by boat',
+            icon: '⛵',
+            color: '#1e90ff',
+            reason: sim.canLaunchBoat(me, hex, Math.floor(troops * attackRatio)),
+            onClick: () => {
+                game.world!.launchBoat(me, hex, Math.floor(troops * attackRatio));
+                setContextMenu(prev => ({ ...prev, visible: false }));
+            }
+        });
+        if (!sim.map.centerWater[hex]) {
+            items.push({
+                key: 'bridge',
+                name: 'Build bridge',
+                icon: '🌉',
+                cost: BRIDGE_COST,
+                color: '#1e90ff',
+                reason: sim.canBuildBridge(me, hex),
+                onClick: () => {
+                    game.world!.buildBridge(me, hex);
+                    setContextMenu(prev => ({ ...prev, visible: false }));
+                }
+            });
+        }
+        const owner = sim.ownerOf(hex);
+        if (owner) {
+            items.push({
+                key: 'diplomacy',
+                name: `Diplomacy with ${owner.name}`,
+                icon: '🤝',
+                color: '#1e90ff',
+                reason: null,
+                onClick: () => {
+                    openDiplomacy(owner.id);
+                    setContextMenu(prev => ({ ...prev, visible: false }));
+                }
+            });
+        }
+        return items;
     };
 
+    const pendingRequests = diplomacy.filter((n: any) => n.incomingRequest && !n.allied).length;
+
     return (
         <>
             <div id="resource-display" style={{
@@ -90,12 +255,144 @@ export const UI = ({ game }: { game: Game }) => {
                 textShadow: '0 0 5px rgba(0,0,0,0.5)'
             }}>
                 <div id="money-counter">💰 {Math.floor(cash).toLocaleString()}</div>
-                <div id="troop-counter">⚔️ {Math.floor(troops).toLocaleString()}</div>
+                {income && (
+                    <div id="income" style={{ fontSize: '14px' }}>
+                        <div style={{ color: income.total < 0 ? '#ff6b6b' : undefined }}>📈 {perSecond(income.total)}</div>
+                        <div id="income-breakdown" style={{ fontSize: '12px', fontWeight: 'normal', opacity: 0.85 }}>
+                            🌾 {perSecond(income.terrain)} · 🏭 {perSecond(income.buildings)} · {income.roads > 0 && <>🛣️ {perSecond(income.roads)} · </>}<span title="Average of recent trade ship arrivals">⚓ {perSecond(income.trade)}</span>
+                            {income.upkeep > 0 && <span title="Army upkeep"> · 🪖 {perSecond(-income.upkeep)}</span>}
+                        </div>
+                    </div>
+                )}
+                <div id="troop-counter" title="Troops regrow fastest at half of the cap, set by your land and cities">
+                    ⚔️ {Math.floor(troops).toLocaleString()}
+                    {maxTroops > 0 && <span style={{ fontSize: '14px', fontWeight: 'normal' }}> / {Math.floor(maxTroops).toLocaleString()}</span>}
+                </div>
+                <label id="troop-focus" style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '14px' }} title="Balance between cash income and troop growth">
+                    💰
+                    <input
+                        type="range"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={troopFocus}
+                        onChange={e => game.setTroopFocus(Number(e.target.value))}
+                        style={{ width: '120px' }}
+                    />
+                    ⚔️
+                </label>
+                <label id="attack-ratio" style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '14px' }} title="Share of troops each attack or expansion sends (Q / E)">
+                    🎯
+                    <input
+                        type="range"
+                        min={MIN_ATTACK_RATIO}
+                        max={1}
+                        step={0.05}
+                        value={attackRatio}
+                        onChange={e => game.setAttackRatio(Number(e.target.value))}
+                        style={{ width: '120px' }}
+                    />
+                    {Math.round(attackRatio * 100)}% · {Math.floor(troops * attackRatio).toLocaleString()}
+                </label>
+                {timeLeft !== null && <div id="time-left" style={{ fontSize: '14px' }} title="Best score wins when time runs out">⏱️ {formatClock(timeLeft)}</div>}
+                {worldInfo && <div id="world-info" style={{ fontSize: '14px' }}>🌍 {worldInfo}</div>}
+                {connectionStatus !== 'offline' && (
+                    <div id="connection-status" style={{ fontSize: '14px' }}>
+                        🌐 {connectionStatus}{connectionStatus === 'connected' ? ` · ${players.length} player(s)` : ''}
+                    </div>
+                )}
+                {connectionError && <div id="connection-error" style={{ fontSize: '14px', color: '#ff6b6b' }}>⚠️ {connectionError}</div>}
             </div>
 
             
+            {nations.length > 0 && (
+                <div id="nation-list" style={{
+                    position: 'absolute',
+                    top: '20px',
+                    right: '20px',
+                    background: 'rgba(0, 0, 0, 0.6)',
+                    color: 'white',
+                    padding: '10px 15px',
+                    borderRadius: '8px',
+                    fontFamily: 'sans-serif',
+                    fontSize: '14px',
+                    minWidth: '160px'
+                }}>
+                    {[...nations].sort((a: any, b: any) => b.territorySize - a.territorySize).map((n: any) => (
+                        <div key={n.id} style={{ display: 'flex', alignItems: 'center', gap: '8px', margin: '4px 0', fontWeight: n.id === game.localPlayerId ? 'bold' : 'normal' }}>
+                            <span style={{ width: '12px', height: '12px', borderRadius: '2px', background: `#${n.color.toString(16).padStart(6, '0')}` }} />
+                            <span style={{ flex: 1 }}>{n.name}</span>
+                            {n.team !== null && <span style={{ opacity: 0.7 }}>T{n.team + 1}</span>}
+                            <span>{n.territorySize}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {incomingMissiles.length > 0 && (
+                <div id="missile-alert" style={{
+                    position: 'absolute',
+                    top: '20px',
+                    left: '50%',
+                    transform: 'translateX(-50%)',
+                    background: 'rgba(220, 38, 38, 0.85)',
+                    color: 'white',
+                    padding: '8px 16px',
+                    borderRadius: '8px',
+                    fontFamily: 'sans-serif',
+                    fontWeight: 'bold',
+                    fontSize: '16px',
+                    textAlign: 'center'
+                }}>
+                    {incomingMissiles.map((m: any) => (
+                        <div key={m.id}>⚠️ Incoming {m.icon} {m.name} from {m.from} · impact in {m.eta}s</div>
+                    ))}
+                </div>
+            )}
+
+            {(buildMode || isGamePaused) && (
+                <div id="mode-banner" style={{
+                    position: 'absolute',
+                    bottom: '80px',
+                    left: '50%',
+                    transform: 'translateX(-50%)',
+                    background: 'rgba(0, 0, 0, 0.7)',
+                    color: 'white',
+                    padding: '6px 14px',
+                    borderRadius: '8px',
+                    fontFamily: 'sans-serif',
+                    fontSize: '14px'
+                }}>
+                    {isGamePaused ? '⏸️ Paused' : `${BUILDINGS[buildMode as BuildingType].icon} Click your land to build a ${BUILDINGS[buildMode as BuildingType].name} · Esc to cancel`}
+                    {!isGamePaused && buildError && <div id="build-error" style={{ color: '#ff6b6b' }}>⚠️ {buildError}</div>}
+                </div>
+            )}
+
+            {diplomacyOpen && <DiplomacyPanel game={game} />}
+            {helpOpen && <HelpOverlay game={game} />}
+            {matchOutcome && <MatchEndScreen game={game} onLeave={onLeave} />}
+
+            <HexInspector game={game} />
+
             <div id="game-hud">
+                <button className="action-btn" title="Controls and shortcuts" onClick={toggleHelp}>❔</button>
+                {connectionStatus === 'offline' && (
+                    <button className="action-btn" title="Download a save of this match" onClick={() => game.downloadSave()}>
+                        💾
+                    </button>
+                )}
+                <button className="action-btn" title="Leave the match and return to the menu" onClick={onLeave}>🚪</button>
+                {pendingRequests > 0 && (
+                    <button className="action-btn" title="Alliance requests waiting" onClick={() => openDiplomacy()}>
+                        📨 {pendingRequests}
+                    </button>
+                )}
                 {/* HUD buttons can be mapped to global actions later */}
+                {expansions.map((e: any) => (
+                    <button key={e.id} className="action-btn" title="Cancel and return troops" onClick={() => game.cancelExpansion(e.id)}>
+                        🌱 {e.troops.toLocaleString()} ✕
+                    </button>
+                ))}
             </div>
 
             {contextMenu.visible && (
@@ -105,8 +402,8 @@ export const UI = ({ game }: { game: Game }) => {
                         position: 'absolute',
                         top: contextMenu.y,
                         left: contextMenu.x,
-                        width: '150px',
-                        height: '150px',
+                        width: `${MENU_SIZE}px`,
+                        height: `${MENU_SIZE}px`,
                         transform: 'translate(-50%, -50%)',
                         zIndex: 1000,
                         pointerEvents: 'none', // Let clicks pass through container to buttons
@@ -114,43 +411,44 @@ export const UI = ({ game }: { game: Game }) => {
                         background: 'rgba(0, 0, 0, 0.2)'
                     }}
                 >
-                    {/* Circular Layout */}
-                    <button 
-                        onClick={() => handleAction('attack')} 
-                        style={{ 
+                    {game.world?.regionName(contextMenu.hexIndex) && (
+                        <div id="hex-region" style={{
                             position: 'absolute',
-                            top: '0',
+                            top: '100%',
                             left: '50%',
-                            transform: 'translateX(-50%)',
-                            width: '60px', 
-                            height: '60px', 
-                            borderRadius: '50%', 
-                            background: '#ff4757', 
-                            color: 'white', 
-                            border: '2px solid white', 
-                            cursor: 'pointer',
-                            pointerEvents: 'auto',
-                            boxShadow: '0 4px 10px rgba(0,0,0,0.3)'
-                        }}
+                            transform: 'translate(-50%, 8px)',
+                            background: 'rgba(0, 0, 0, 0.7)',
+                            color: 'white',
+                            padding: '2px 8px',
+                            borderRadius: '4px',
+                            fontFamily: 'sans-serif',
+                            fontSize: '12px',
+                            whiteSpace: 'nowrap'
+                        }}>📍 {game.world.regionName(contextMenu.hexIndex)}</div>
+                    )}
+                    {/* Circular Layout: attack on top, buildings around the rest of the ring */}
+                    <button
+                        onClick={() => handleAction('attack')}
+                        style={menuButtonStyle(0, '#ff4757', true)}
                     >⚔️</button>
-                    <button 
-                        onClick={() => handleAction('build')} 
-                        style={{ 
-                            position: 'absolute',
-                            bottom: '0',
-                            left: '50%',
-                            transform: 'translateX(-50%)',
-                            width: '60px', 
-                            height: '60px', 
-                            borderRadius: '50%', 
-                            background: '#2ed573', 
-                            color: 'white', 
-                            border: '2px solid white', 
-                            cursor: 'pointer',
-                            pointerEvents: 'auto',
-                            boxShadow: '0 4px 10px rgba(0,0,0,0.3)'
-                        }}
-                    >🚩</button>
+                    {!game.localPlayer?.capitalPlaced ? (
+                        <button
+                            onClick={() => handleAction('capital')}
+                            title="Place your capital"
+                            style={menuButtonStyle(Math.PI, '#2ed573', true)}
+                        >🚩</button>
+                    ) : ringItems().map((item, i, items) => (
+                        <button
+                            key={item.key}
+                            disabled={item.reason !== null}
+                            onClick={item.onClick}
+                            title={item.reason ? `${item.name}: ${item.reason}` : item.name}
+                            style={menuButtonStyle((2 * Math.PI * (i + 1)) / (items.length + 1), item.color, item.reason === null)}
+                        >
+                            <span style={{ fontSize: '18px' }}>{item.icon}</span>
+                            {item.cost !== undefined && <span style={{ fontSize: '10px' }}>💰{item.cost / 1000}k</span>}
+                        </button>
+                    ))}
                 </div>
             )}
         </>
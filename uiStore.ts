@@ -1,12 +1,47 @@
 import { create } from 'zustand';
+import { DEFAULT_MATCH_SETTINGS } from './core/sim/Match';
+
+// What a fresh match shows before the first tick is published
+const MATCH_DEFAULTS = {
+  isGamePaused: false,
+  cash: DEFAULT_MATCH_SETTINGS.startingCash,
+  troops: DEFAULT_MATCH_SETTINGS.startingTroops,
+  maxTroops: 0,
+  // Cash per second of the local nation: terrain, buildings, trade, upkeep, total
+  income: null,
+  expansions: [],
+  incomingMissiles: [],
+  diplomacy: [],
+  diplomacyOpen: false,
+  diplomacyFocus: null,
+  // Details of the hex under the pointer, or the one pinned by a click
+  inspectedHex: null,
+  buildMode: null,
+  // Why the last click in build mode placed nothing
+  buildError: null,
+  // Set once the match is won or lost: reason, winners, standings
+  matchOutcome: null,
+  // Seconds until the time limit ends the match, or null without one
+  timeLeft: null,
+};
 
 // Create the store
 export const useUIStore = create((set: any) => ({
   // Initial State
-  isGamePaused: false,
-  cash: 250000,
-  troops: 500,
+  ...MATCH_DEFAULTS,
+  troopFocus: 0.5,
   theme: 'light',
+  connectionStatus: 'offline',
+  // Why the server turned us away for good, e.g. a full lobby
+  connectionError: null,
+  players: [],
+  nations: [],
+  worldInfo: '',
+  // { stage, progress } while the globe is loading or generating
+  worldLoading: null,
+  worldError: null,
+  attackRatio: 0.3,
+  helpOpen: false,
 
   // Actions
   togglePause: () => set((state: any) => ({ isGamePaused: !state.isGamePaused })),
@@ -15,7 +50,55 @@ export const useUIStore = create((set: any) => ({
     set((state: any) => ({
       cash: updates.cash ?? state.cash,
       troops: updates.troops ?? state.troops,
+      maxTroops: updates.maxTroops ?? state.maxTroops,
     })),
 
+  setIncome: (income: any) => set({ income }),
+
+  setTroopFocus: (troopFocus: number) => set({ troopFocus }),
+
+  setConnectionStatus: (connectionStatus: string) => set({ connectionStatus }),
+
+  setConnectionError: (connectionError: string | null) => set({ connectionError }),
+
+  setPlayers: (players: any[]) => set({ players }),
+
+  setNations: (nations: any[]) => set({ nations }),
+
+  setExpansions: (expansions: any[]) => set({ expansions }),
+
+  setIncomingMissiles: (incomingMissiles: any[]) => set({ incomingMissiles }),
+
+  setDiplomacy: (diplomacy: any[]) => set({ diplomacy }),
+
+  openDiplomacy: (focusId: number | null = null) => set({ diplomacyOpen: true, diplomacyFocus: focusId }),
+
+  closeDiplomacy: () => set({ diplomacyOpen: false, diplomacyFocus: null }),
+
+  setWorldInfo: (worldInfo: string) => set({ worldInfo }),
+
+  setWorldLoading: (worldLoading: { stage: string; progress: number } | null) => set({ worldLoading }),
+
+  setWorldError: (worldError: string | null) => set({ worldError }),
+
+  setInspectedHex: (inspectedHex: any) => set({ inspectedHex }),
+
+  setAttackRatio: (attackRatio: number) => set({ attackRatio }),
+
+  setBuildMode: (buildMode: string | null) => set({ buildMode, buildError: null }),
+
+  setBuildError: (buildError: string | null) => set({ buildError }),
+
+  setMatchOutcome: (matchOutcome: any) => set({ matchOutcome }),
+
+  setTimeLeft: (timeLeft: number | null) => set({ timeLeft }),
+
+  // Back to a blank HUD when a match is left
+  resetMatch: () => set({ ...MATCH_DEFAULTS, players: [], nations: [], connectionStatus: 'offline', connectionError: null }),
+
+  toggleHelp: () => set((state: any) => ({ helpOpen: !state.helpOpen })),
+
+  closeHelp: () => set({ helpOpen: false }),
+
   toggleTheme: () => set((state: any) => ({ theme: state.theme === 'light' ? 'dark' : 'light' })),
 }));